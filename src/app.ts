@@ -1,17 +1,46 @@
 import { BunRequest, ServerWebSocket, serve } from "bun";
+import type { z } from "zod";
 import { roomsManager } from "./lib/managers/room-management";
 import { usersManager } from "./lib/managers/user-management";
 import { gameManager } from "./lib/managers/game-management";
+import { dailyChallengeManager, getDailyChallengeDate } from "./lib/managers/daily-challenge-management";
 import { webSocketManager } from "./lib/managers/websocket-management";
+import { bansManager } from "./lib/managers/ban-management";
 import { cleanupService } from "./lib/utils/cleanup";
 import { ErrorHandler, AppError, ErrorCode } from "./lib/utils/error-handler";
 import { getCorsHeaders, handlePreflightRequest } from "./lib/utils/security/cors";
 import { RequestValidator } from "./lib/utils/security/request-validator";
+import { InputSanitizer } from "./lib/utils/security/input-sanitizer";
 import { logger } from "./lib/utils/logger";
+import { createRequestId, REQUEST_ID_HEADER, resolveRequestId, runWithRequestContext } from "./lib/utils/request-context";
 import { env, isDevelopment } from "./lib/utils/env";
 import { WebSocketSecurity } from "./lib/utils/security/websocket";
-import { getClientIPAddress } from "./lib/utils/security/network";
+import { normalizeIP, resolveClientIP } from "./lib/utils/security/network";
+import { connectionRegistry } from "./lib/utils/security/connection-registry";
+import { SECURITY_CONFIG } from "./lib/utils/security/config";
+import { rateLimiter } from "./lib/utils/security/rate-limiter";
 import { parseCookies } from "./lib/utils/security/cookies";
+import { buildSessionCookie, issueSessionToken, verifySessionToken } from "./lib/utils/security/session-tokens";
+import { fetchFlagAsset } from "./lib/utils/flag-assets";
+import { storage } from "./lib/storage";
+import { roomBus } from "./lib/bus";
+import { auditLog } from "./lib/audit";
+import { metrics, METRICS_CONTENT_TYPE } from "./lib/metrics";
+import {
+  AdminCloseRoomRequestSchema,
+  AdminKickUserRequestSchema,
+  AdminSystemMessageRequestSchema,
+  AdminTransferHostRequestSchema,
+  AuditQuerySchema,
+  CreateBanRequestSchema,
+  DailyChallengeAnswerDataSchema,
+  DailyChallengeStartDataSchema,
+  DailyLeaderboardQuerySchema,
+  ListBansQuerySchema,
+  type AuditQueryParams,
+  type DailyLeaderboardQuery,
+} from "./lib/schemas";
+import { safeValidate } from "./lib/utils/validation";
 import { WebSocketData } from "./types/entities";
 
 const createJsonResponse = (data: unknown, status = 200, origin: string | null = null) =>
@@ -38,8 +67,53 @@ const handleApiError = (error: unknown, endpoint: string, origin: string | null
   return ErrorHandler.createErrorResponse(appError, origin);
 };
 
-const requireAuth = (handler: (req: Request) => Promise<Response>) => {
-  return async (req: Request) => {
+const parseJsonBody = async <T>(req: Request, schema: z.ZodType<T>): Promise<T> => {
+  const result = safeValidate(schema, await req.json().catch(() => ({})));
+  if (!result.success) {
+    throw ErrorHandler.createValidationError(result.error);
+  }
+  return result.data;
+};
+
+const getAdminActor = (req: Request) => `admin:${req.headers.get('x-admin-user')?.trim() || 'api-key'}`;
+
+const requireRoom = (roomId: string) => {
+  const room = roomsManager.getRoom(roomId);
+  if (!room) {
+    throw ErrorHandler.createNotFoundError("Room");
+  }
+  return room;
+};
+
+/** Resolves the player behind a session cookie, the same credential the WebSocket upgrade checks */
+const requireSession = (req: Request) => {
+  const ipAddress = resolveClientIP(req, server.requestIP(req)?.address);
+  const claims = verifySessionToken(parseCookies(req.headers.get('cookie')).session_token ?? '');
+  if (!claims) {
+    throw new AppError({
+      code: ErrorCode.AUTHENTICATION_ERROR,
+      message: "Missing or invalid session token",
+      statusCode: 401,
+    });
+  }
+
+  const ban = bansManager.isBanned(claims.sub, ipAddress);
+  if (ban) {
+    throw ErrorHandler.createBannedError(ban.reason, ban.expiresAt);
+  }
+
+  return { userId: claims.sub, ipAddress };
+};
+
+const consumeActionLimit = (action: string, identifiers: { userId?: string; ipAddress: string }) => {
+  const result = rateLimiter.consume(action, identifiers);
+  if (!result.allowed) {
+    throw ErrorHandler.createRateLimitError(result.retryAfter, { action, scope: result.scope });
+  }
+};
+
+const requireAuth = (handler: (req: Request) => Response | Promise<Response>) => {
+  return (req: Request) => {
     const origin = req.headers.get('origin');
 
     const apiKey = req.headers.get('x-api-key');
@@ -53,8 +127,8 @@ const requireAuth = (handler: (req: Request) => Promise<Response>) => {
 
 const requestValidationMiddleware = RequestValidator.createMiddleware();
 
-const withMiddleware = <T extends Request = Request>(handler: (req: T) => Promise<Response>) => {
-  return ErrorHandler.asyncHandler(async (req: Request) => {
+const withMiddleware = <T extends Request = Request>(handler: (req: T) => Response | Promise<Response>) => {
+  const wrapped = ErrorHandler.asyncHandler(async (req: Request) => {
     const validationResult = await requestValidationMiddleware(req);
     if (validationResult.response) {
       return validationResult.response;
@@ -62,23 +136,42 @@ const withMiddleware = <T extends Request = Request>(handler: (req: T) => Promis
 
     return handler(req as T);
   });
+
+  return async (req: Request) => {
+    const requestId = resolveRequestId(req);
+    const response = await runWithRequestContext({ requestId }, () => wrapped(req));
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  };
 };
 
-const withAdminAuth = <T extends Request = Request>(handler: (req: Request) => Promise<Response>) => {
+const withAdminAuth = <T extends Request = Request>(handler: (req: Request) => Response | Promise<Response>) => {
   return withMiddleware<T>(
     requireAuth(handler)
   );
 };
 
+/** Each socket event gets its own request id, tagged with the connection it arrived on */
+const withConnectionContext = <T>(ws: ServerWebSocket<WebSocketData>, fn: () => T): T =>
+  runWithRequestContext(
+    {
+      requestId: createRequestId(),
+      connectionId: ws.data?.connectionId,
+      userId: ws.data?.userId,
+      roomId: ws.data?.roomId,
+    },
+    fn
+  );
+
 const server = serve({
   port: env.PORT,
   routes: {
     "/api/status": new Response("OK", { status: 200 }),
     "/api/healthz": {
-      async OPTIONS(req) {
+      OPTIONS(req) {
         return handlePreflightRequest(req);
       },
-      GET: withMiddleware(async (req) => {
+      GET: withMiddleware((req) => {
         const origin = req.headers.get('origin');
         try {
           return createJsonResponse({
@@ -91,10 +184,10 @@ const server = serve({
       }),
     },
     "/api/admin/rooms": {
-      async OPTIONS(req) {
+      OPTIONS(req) {
         return handlePreflightRequest(req);
       },
-      GET: withAdminAuth(async (req) => {
+      GET: withAdminAuth((req) => {
         const origin = req.headers.get('origin');
         try {
           return createJsonResponse({
@@ -106,11 +199,125 @@ const server = serve({
         }
       }),
     },
+    "/api/admin/rooms/:roomId/close": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withAdminAuth(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { roomId } = (req as BunRequest<"/api/admin/rooms/:roomId/close">).params;
+          const room = requireRoom(roomId);
+          const { reason } = await parseJsonBody(req, AdminCloseRoomRequestSchema);
+
+          webSocketManager.closeRoom(roomId, reason);
+          auditLog.record({
+            actor: getAdminActor(req),
+            action: "room.close",
+            target: roomId,
+            roomId,
+            details: { reason, inviteCode: room.inviteCode, members: room.members.length },
+          });
+          return createJsonResponse({ success: true }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/rooms/:roomId/close", origin);
+        }
+      }),
+    },
+    "/api/admin/rooms/:roomId/kick": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withAdminAuth(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { roomId } = (req as BunRequest<"/api/admin/rooms/:roomId/kick">).params;
+          const room = requireRoom(roomId);
+          const { userId, reason } = await parseJsonBody(req, AdminKickUserRequestSchema);
+
+          const isInRoom = [...room.members, ...room.spectators].some((member) => member.id === userId);
+          if (!(isInRoom && webSocketManager.kickUser(roomId, userId, reason))) {
+            throw ErrorHandler.createNotFoundError("User");
+          }
+          auditLog.record({ actor: getAdminActor(req), action: "room.kick", target: userId, roomId, details: { reason } });
+          return createJsonResponse({ success: true }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/rooms/:roomId/kick", origin);
+        }
+      }),
+    },
+    "/api/admin/rooms/:roomId/stop": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { roomId } = (req as BunRequest<"/api/admin/rooms/:roomId/stop">).params;
+          const room = requireRoom(roomId);
+          if (!room.gameState.isActive) {
+            throw ErrorHandler.createRoomError("No game is running in this room", ErrorCode.GAME_NOT_ACTIVE);
+          }
+
+          gameManager.stopGame(roomId, getAdminActor(req));
+          return createJsonResponse({ success: true }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/rooms/:roomId/stop", origin);
+        }
+      }),
+    },
+    "/api/admin/rooms/:roomId/host": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withAdminAuth(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { roomId } = (req as BunRequest<"/api/admin/rooms/:roomId/host">).params;
+          const room = requireRoom(roomId);
+          const { userId } = await parseJsonBody(req, AdminTransferHostRequestSchema);
+
+          const updatedRoom = webSocketManager.transferHost(roomId, userId);
+          if (!updatedRoom) {
+            throw ErrorHandler.createValidationError("User is not a member of this room or is already the host");
+          }
+          auditLog.record({
+            actor: getAdminActor(req),
+            action: "room.transfer_host",
+            target: userId,
+            roomId,
+            details: { previousHost: room.host },
+          });
+          return createJsonResponse({ success: true, host: updatedRoom.host }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/rooms/:roomId/host", origin);
+        }
+      }),
+    },
+    "/api/admin/rooms/:roomId/message": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withAdminAuth(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { roomId } = (req as BunRequest<"/api/admin/rooms/:roomId/message">).params;
+          requireRoom(roomId);
+          const { message, level } = await parseJsonBody(req, AdminSystemMessageRequestSchema);
+
+          webSocketManager.sendSystemMessage(roomId, InputSanitizer.sanitizeForDisplay(message), level);
+          auditLog.record({ actor: getAdminActor(req), action: "room.system_message", roomId, details: { message, level } });
+          return createJsonResponse({ success: true }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/rooms/:roomId/message", origin);
+        }
+      }),
+    },
     "/api/admin/users": {
-      async OPTIONS(req) {
+      OPTIONS(req) {
         return handlePreflightRequest(req);
       },
-      GET: withAdminAuth(async (req) => {
+      GET: withAdminAuth((req) => {
         const origin = req.headers.get('origin');
         try {
           return createJsonResponse({
@@ -122,11 +329,228 @@ const server = serve({
         }
       }),
     },
+    "/api/session": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withMiddleware((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          consumeActionLimit("ISSUE_SESSION", { ipAddress: resolveClientIP(req, server.requestIP(req)?.address) });
+
+          const cookies = parseCookies(req.headers.get('cookie'));
+          const existing = cookies.session_token ? verifySessionToken(cookies.session_token) : null;
+          const session = issueSessionToken(existing?.sub ?? crypto.randomUUID());
+
+          const response = createJsonResponse({
+            data: { userId: session.userId, token: session.token, expiresAt: session.expiresAt },
+          }, 200, origin);
+          response.headers.append("set-cookie", buildSessionCookie(session));
+          return response;
+        } catch (error) {
+          return handleApiError(error, "/api/session", origin);
+        }
+      }),
+    },
+    "/api/daily/start": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withMiddleware(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const session = requireSession(req);
+          consumeActionLimit("DAILY_CHALLENGE", session);
+
+          const body = await parseJsonBody(req, DailyChallengeStartDataSchema);
+          const username = body.username || usersManager.getUser(session.userId)?.username;
+          if (!username) {
+            throw ErrorHandler.createValidationError("Username is required");
+          }
+
+          return createJsonResponse({ data: dailyChallengeManager.startAttempt(session.userId, username) }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/daily/start", origin);
+        }
+      }),
+    },
+    "/api/daily/answer": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      POST: withMiddleware(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const session = requireSession(req);
+          consumeActionLimit("DAILY_CHALLENGE", session);
+
+          const body = await parseJsonBody(req, DailyChallengeAnswerDataSchema);
+          const outcome = dailyChallengeManager.submitAnswer(session.userId, body.questionId, body.answer);
+          return createJsonResponse({ data: outcome }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/daily/answer", origin);
+        }
+      }),
+    },
+    "/api/daily/leaderboard": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      GET: withMiddleware((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const query = RequestValidator.validateQueryParams(req, DailyLeaderboardQuerySchema);
+          if (!query.valid) {
+            throw ErrorHandler.createValidationError(query.error || "Invalid query parameters");
+          }
+          const { date, limit } = query.sanitizedData as DailyLeaderboardQuery;
+
+          return createJsonResponse({
+            data: dailyChallengeManager.getLeaderboard(date ?? getDailyChallengeDate(), limit),
+          }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/daily/leaderboard", origin);
+        }
+      }),
+    },
+    "/api/admin/audit": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      GET: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const query = RequestValidator.validateQueryParams(req, AuditQuerySchema);
+          if (!query.valid) {
+            throw ErrorHandler.createValidationError(query.error || "Invalid query parameters");
+          }
+          const params = query.sanitizedData as AuditQueryParams;
+          const { entries, total } = auditLog.query(params);
+          return createJsonResponse({ entries, total, limit: params.limit, offset: params.offset }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/audit", origin);
+        }
+      }),
+    },
+    "/api/admin/bans": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      GET: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const query = RequestValidator.validateQueryParams(req, ListBansQuerySchema);
+          if (!query.valid) {
+            throw ErrorHandler.createValidationError(query.error || "Invalid query parameters");
+          }
+          const bans = bansManager.listBans(query.sanitizedData?.includeExpired === "true");
+          return createJsonResponse({ bans, count: bans.length }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/bans", origin);
+        }
+      }),
+      POST: withAdminAuth(async (req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { type, target, reason, issuedBy, durationMs } = await parseJsonBody(req, CreateBanRequestSchema);
+          const actor = getAdminActor(req);
+          const ban = bansManager.createBan({ type, target, reason, issuedBy: issuedBy ?? actor, durationMs });
+          const disconnected = webSocketManager.enforceBan(ban);
+          auditLog.record({
+            actor,
+            action: "ban.create",
+            target: ban.target,
+            details: { banId: ban.id, type: ban.type, reason, expiresAt: ban.expiresAt, disconnected },
+          });
+          return createJsonResponse({ ban, disconnected }, 201, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/bans", origin);
+        }
+      }),
+    },
+    "/api/admin/bans/:banId": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      DELETE: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { banId } = (req as BunRequest<"/api/admin/bans/:banId">).params;
+          const ban = bansManager.liftBan(banId);
+          if (!ban) {
+            throw ErrorHandler.createNotFoundError("Ban");
+          }
+          auditLog.record({
+            actor: getAdminActor(req),
+            action: "ban.lift",
+            target: ban.target,
+            details: { banId: ban.id, type: ban.type },
+          });
+          return createJsonResponse({ ban }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/bans/:banId", origin);
+        }
+      }),
+    },
+    "/api/admin/connections": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      GET: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const ips = connectionRegistry.list();
+          const total = ips.reduce((sum, entry) => sum + entry.count, 0);
+          return createJsonResponse(
+            { ips, total, limitPerIP: SECURITY_CONFIG.RATE_LIMITS.MAX_CONNECTIONS_PER_IP },
+            200,
+            origin
+          );
+        } catch (error) {
+          return handleApiError(error, "/api/admin/connections", origin);
+        }
+      }),
+      DELETE: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const reset = connectionRegistry.reset();
+          auditLog.record({ actor: getAdminActor(req), action: "connections.reset", details: { reset } });
+          return createJsonResponse({ reset }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/connections", origin);
+        }
+      }),
+    },
+    "/api/admin/connections/:ipAddress": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      DELETE: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          const { ipAddress: rawIPAddress } = (req as BunRequest<"/api/admin/connections/:ipAddress">).params;
+          const ipAddress = normalizeIP(decodeURIComponent(rawIPAddress));
+          if (!ipAddress) {
+            throw ErrorHandler.createValidationError("Invalid IP address");
+          }
+          const reset = connectionRegistry.reset(ipAddress);
+          auditLog.record({
+            actor: getAdminActor(req),
+            action: "connections.reset",
+            target: ipAddress,
+            details: { reset },
+          });
+          return createJsonResponse({ ipAddress, reset }, 200, origin);
+        } catch (error) {
+          return handleApiError(error, "/api/admin/connections/:ipAddress", origin);
+        }
+      }),
+    },
     "/api/rooms/:inviteCode": {
-      async OPTIONS(req) {
+      OPTIONS(req) {
         return handlePreflightRequest(req);
       },
-      GET: withMiddleware(async (req: BunRequest & { params: { inviteCode: string } }) => {
+      GET: withMiddleware((req: BunRequest & { params: { inviteCode: string } }) => {
         const origin = req.headers.get('origin');
         const inviteCode = req.params.inviteCode;
         const room = roomsManager.getRoomByInviteCode(inviteCode);
@@ -146,11 +570,37 @@ const server = serve({
         return createJsonResponse({ data: roomInfo }, 200, origin);
       }),
     },
+    "/api/flags/:assetId": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      GET: withMiddleware(async (req: BunRequest & { params: { assetId: string } }) => {
+        const origin = req.headers.get('origin');
+        try {
+          const countryCode =
+            gameManager.resolveFlagAsset(req.params.assetId) ?? dailyChallengeManager.resolveFlagAsset(req.params.assetId);
+          if (!countryCode) {
+            return createJsonResponse({ error: "Flag not found" }, 404, origin);
+          }
+          const asset = await fetchFlagAsset(countryCode);
+          return new Response(asset.body, {
+            status: 200,
+            headers: {
+              ...getCorsHeaders(origin),
+              "content-type": asset.contentType,
+              "cache-control": "private, max-age=300",
+            },
+          });
+        } catch (error) {
+          return handleApiError(error, "/api/flags/:assetId", origin);
+        }
+      }),
+    },
     "/api/stats": {
-      async OPTIONS(req) {
+      OPTIONS(req) {
         return handlePreflightRequest(req);
       },
-      GET: withMiddleware(async (req) => {
+      GET: withMiddleware((req) => {
         const origin = req.headers.get('origin');
         try {
           const activeRooms = roomsManager.rooms.size;
@@ -168,30 +618,42 @@ const server = serve({
         }
       }),
     },
+    "/api/metrics": {
+      OPTIONS(req) {
+        return handlePreflightRequest(req);
+      },
+      // Room, game and rate-limit internals: scrape with the admin key in x-api-key
+      GET: withAdminAuth((req) => {
+        const origin = req.headers.get('origin');
+        try {
+          return new Response(metrics.render(), {
+            status: 200,
+            headers: { ...getCorsHeaders(origin), "Content-Type": METRICS_CONTENT_TYPE },
+          });
+        } catch (error) {
+          return handleApiError(error, "/api/metrics", origin);
+        }
+      }),
+    },
     "/ws": {
-      async GET(req, server) {
-        const serverIp = server.requestIP(req);
-        const ipAddress = serverIp?.address || getClientIPAddress(req) || undefined;
+      GET(req, server) {
+        const ipAddress = resolveClientIP(req, server.requestIP(req)?.address);
 
         const check = WebSocketSecurity.validateConnection(req, ipAddress);
         if (!check.allowed) {
           return new Response(check.reason || "Forbidden", { status: 403 });
         }
 
-        const cookies = parseCookies(req.headers.get('cookie'));
-        const session = cookies['session_token'];
-        let userId: string | null = null;
-        if (session) {
-          userId = session;
-        }
-
+        const userId = check.userId;
         if (!userId) {
           return new Response("Unauthorized", { status: 401 });
         }
 
+        const connectionId = createRequestId();
         const upgraded = server.upgrade(req, {
           data: {
             userId,
+            connectionId,
             roomId: null,
             isAdmin: false,
             authenticated: true,
@@ -201,40 +663,53 @@ const server = serve({
         if (!upgraded) {
           return new Response("WebSocket upgrade failed", { status: 400 });
         }
-        WebSocketSecurity.trackConnection(undefined as any, req);
+        connectionRegistry.register(ipAddress, connectionId);
         return undefined;
       },
     },
   },
   websocket: {
     open: (ws: ServerWebSocket<WebSocketData>) => {
-      webSocketManager.handleOpen(ws);
+      withConnectionContext(ws, () => webSocketManager.handleOpen(ws));
     },
     message: (ws: ServerWebSocket<WebSocketData>, message: string | Buffer) => {
-      webSocketManager.handleMessage(ws, message);
+      withConnectionContext(ws, () => webSocketManager.handleMessage(ws, message));
     },
     close: (ws: ServerWebSocket<WebSocketData>) => {
-      webSocketManager.handleClose(ws);
-      if (ws.data?.ipAddress) {
-        try { (WebSocketSecurity as any).untrackByIp?.(ws.data.ipAddress); } catch { }
-      }
+      withConnectionContext(ws, () => webSocketManager.handleClose(ws));
+      connectionRegistry.release(ws.data.connectionId);
     },
     perMessageDeflate: false,
   },
   development: isDevelopment,
 });
 
+bansManager.rehydrate();
+const restoredRooms = roomsManager.rehydrate();
+const restoredUsers = usersManager.rehydrate();
+webSocketManager.resumeRestoredUsers(restoredUsers.filter((user) => user.roomId).map((user) => user.id));
+const resumedGames = await gameManager.resumeTimers();
+if (restoredRooms.length > 0) {
+  logger.info(
+    `Restored ${restoredRooms.length} rooms and ${restoredUsers.length} users from ${env.STORAGE_DRIVER} storage, resumed ${resumedGames} games`
+  );
+}
+
 cleanupService.start();
 
 process.on('SIGINT', () => {
   logger.info('Received SIGINT, shutting down gracefully...');
   cleanupService.stop();
+  storage.close();
+  roomBus.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
   cleanupService.stop();
+  storage.close();
+  roomBus.close();
   process.exit(0);
 });
 
@@ -0,0 +1,26 @@
+import type { AuditEntry, AuditQuery, AuditQueryResult } from './types';
+
+export const matchesAuditQuery = (
+  entry: AuditEntry,
+  query: AuditQuery
+): boolean =>
+  (!query.actor || entry.actor === query.actor) &&
+  (!query.action || entry.action === query.action) &&
+  (!query.target || entry.target === query.target) &&
+  (!query.roomId || entry.roomId === query.roomId) &&
+  (query.since === undefined || entry.timestamp >= query.since) &&
+  (query.until === undefined || entry.timestamp <= query.until);
+
+/** Filters oldest-first entries and returns the requested page newest-first */
+export const paginateAuditEntries = (
+  entries: AuditEntry[],
+  query: AuditQuery
+): AuditQueryResult => {
+  const matching = entries
+    .filter((entry) => matchesAuditQuery(entry, query))
+    .reverse();
+  return {
+    entries: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  };
+};
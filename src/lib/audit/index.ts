@@ -0,0 +1,65 @@
+import { nanoid } from 'nanoid';
+import { env } from '../utils/env';
+import { logger } from '../utils/logger';
+import { JsonlAuditSink } from './jsonl-sink';
+import { MemoryAuditSink } from './memory-sink';
+import type {
+  AuditEntry,
+  AuditEntryInput,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+} from './types';
+
+const createAuditSink = (): AuditSink => {
+  switch (env.AUDIT_SINK) {
+    case 'jsonl':
+      return new JsonlAuditSink(env.AUDIT_LOG_PATH);
+    default:
+      return new MemoryAuditSink();
+  }
+};
+
+class AuditLog {
+  private sink: AuditSink;
+
+  constructor(sink: AuditSink) {
+    this.sink = sink;
+  }
+
+  record(input: AuditEntryInput): AuditEntry {
+    const entry: AuditEntry = {
+      id: nanoid(),
+      actor: input.actor,
+      action: input.action,
+      target: input.target ?? null,
+      roomId: input.roomId ?? null,
+      timestamp: Date.now(),
+      details: input.details,
+    };
+
+    try {
+      this.sink.append(entry);
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${entry.action}`, error);
+    }
+
+    return entry;
+  }
+
+  query(query: AuditQuery): AuditQueryResult {
+    return this.sink.query(query);
+  }
+}
+
+export const auditLog = new AuditLog(createAuditSink());
+
+export { JsonlAuditSink } from './jsonl-sink';
+export { MemoryAuditSink } from './memory-sink';
+export type {
+  AuditEntry,
+  AuditEntryInput,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+} from './types';
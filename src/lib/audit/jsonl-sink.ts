@@ -0,0 +1,44 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { logger } from '../utils/logger';
+import { paginateAuditEntries } from './filter';
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+} from './types';
+
+/** One JSON object per line, appended synchronously so an entry is on disk before the action returns */
+export class JsonlAuditSink implements AuditSink {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  append(entry: AuditEntry): void {
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+
+  query(query: AuditQuery): AuditQueryResult {
+    if (!existsSync(this.path)) {
+      return { entries: [], total: 0 };
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        logger.warn(`Skipping malformed audit log line in ${this.path}`);
+      }
+    }
+
+    return paginateAuditEntries(entries, query);
+  }
+}
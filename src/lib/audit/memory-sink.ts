@@ -0,0 +1,28 @@
+import { paginateAuditEntries } from './filter';
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSink,
+} from './types';
+
+/** Keeps the most recent `capacity` entries; older ones fall off the end */
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+  private readonly capacity: number;
+
+  constructor(capacity = 5000) {
+    this.capacity = capacity;
+  }
+
+  append(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  query(query: AuditQuery): AuditQueryResult {
+    return paginateAuditEntries(this.entries, query);
+  }
+}
@@ -0,0 +1,41 @@
+export interface AuditEntry {
+  id: string;
+  /** "admin:<name>", a user id, or "system" */
+  actor: string;
+  action: string;
+  target: string | null;
+  roomId: string | null;
+  timestamp: number;
+  details?: Record<string, unknown>;
+}
+
+export type AuditEntryInput = Omit<
+  AuditEntry,
+  'id' | 'timestamp' | 'target' | 'roomId'
+> & {
+  target?: string | null;
+  roomId?: string | null;
+};
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string;
+  target?: string;
+  roomId?: string;
+  since?: number;
+  until?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  total: number;
+}
+
+/** Where audit entries end up. Sinks only ever append; nothing is updated or removed by id. */
+export interface AuditSink {
+  append(entry: AuditEntry): void;
+  /** Newest entries first */
+  query(query: AuditQuery): AuditQueryResult;
+}
@@ -0,0 +1,29 @@
+import { nanoid } from 'nanoid';
+import { env } from '../utils/env';
+import { LoopbackRoomBus } from './loopback';
+import { RedisRoomBus } from './redis';
+import type { RoomBus } from './types';
+
+const createRoomBus = (): RoomBus => {
+  const instanceId = env.INSTANCE_ID ?? nanoid();
+
+  switch (env.ROOM_BUS_DRIVER) {
+    case 'redis':
+      return new RedisRoomBus(env.REDIS_URL, instanceId);
+    default:
+      return new LoopbackRoomBus(instanceId);
+  }
+};
+
+export const roomBus = createRoomBus();
+
+export { LoopbackRoomBus } from './loopback';
+export { RedisRoomBus } from './redis';
+export { RelaySocket } from './relay-socket';
+export type {
+  RelayHandler,
+  RelayMessage,
+  RoomBus,
+  RoomBusEvent,
+  RoomBusHandler,
+} from './types';
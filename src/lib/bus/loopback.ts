@@ -0,0 +1,83 @@
+import type {
+  RelayHandler,
+  RelayMessage,
+  RoomBus,
+  RoomBusEvent,
+  RoomBusHandler,
+} from './types';
+
+export class LoopbackRoomBus implements RoomBus {
+  readonly instanceId: string;
+  private handlers: RoomBusHandler[] = [];
+  private relayHandlers: RelayHandler[] = [];
+  private ownedRooms = new Set<string>();
+  private locations = new Map<string, number>();
+
+  constructor(instanceId: string) {
+    this.instanceId = instanceId;
+  }
+
+  publish(event: RoomBusEvent): void {
+    for (const handler of this.handlers) {
+      handler(event);
+    }
+  }
+
+  subscribe(handler: RoomBusHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /** There are no other instances, so only messages addressed to this one arrive */
+  sendToInstance(instanceId: string, message: RelayMessage): void {
+    if (instanceId !== this.instanceId) {
+      return;
+    }
+    for (const handler of this.relayHandlers) {
+      handler(message);
+    }
+  }
+
+  onRelay(handler: RelayHandler): void {
+    this.relayHandlers.push(handler);
+  }
+
+  claimRoom(roomId: string): Promise<boolean> {
+    this.ownedRooms.add(roomId);
+    return Promise.resolve(true);
+  }
+
+  releaseRoom(roomId: string): Promise<void> {
+    this.ownedRooms.delete(roomId);
+    return Promise.resolve();
+  }
+
+  isRoomOwner(roomId: string): boolean {
+    return this.ownedRooms.has(roomId);
+  }
+
+  setLocation(key: string, ttlMs: number): Promise<void> {
+    this.locations.set(key, Date.now() + ttlMs);
+    return Promise.resolve();
+  }
+
+  clearLocation(key: string): Promise<void> {
+    this.locations.delete(key);
+    return Promise.resolve();
+  }
+
+  locate(key: string): Promise<string | null> {
+    const expiresAt = this.locations.get(key);
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      this.locations.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(this.instanceId);
+  }
+
+  close(): void {
+    this.handlers = [];
+    this.relayHandlers = [];
+    this.ownedRooms.clear();
+    this.locations.clear();
+  }
+}
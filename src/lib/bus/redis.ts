@@ -0,0 +1,205 @@
+import { RedisClient } from 'bun';
+import { logger } from '../utils/logger';
+import type {
+  RelayHandler,
+  RelayMessage,
+  RoomBus,
+  RoomBusEvent,
+  RoomBusHandler,
+} from './types';
+
+const EVENTS_CHANNEL = 'flags:room-events';
+const RELAY_CHANNEL_PREFIX = 'flags:relay:';
+const OWNER_KEY_PREFIX = 'flags:room-owner:';
+const LOCATION_KEY_PREFIX = 'flags:location:';
+const OWNER_TTL_MS = 30_000;
+
+interface RedisRoomBusMessage extends RoomBusEvent {
+  origin: string;
+}
+
+/**
+ * Room bus over any Redis-protocol server. Events are delivered locally straight
+ * away and fanned out to other instances via PUBLISH; ownership is a SET NX key
+ * with a TTL that the owner keeps renewing. Each instance also listens on its
+ * own relay channel, and locations are plain keys holding an instance id.
+ */
+export class RedisRoomBus implements RoomBus {
+  readonly instanceId: string;
+  private publisher: RedisClient;
+  private subscriber: RedisClient;
+  private handlers: RoomBusHandler[] = [];
+  private relayHandlers: RelayHandler[] = [];
+  private ownedRooms = new Set<string>();
+  private renewTimer: Timer;
+
+  constructor(url: string, instanceId: string) {
+    this.instanceId = instanceId;
+    this.publisher = new RedisClient(url);
+    this.subscriber = new RedisClient(url);
+
+    this.subscriber
+      .subscribe(EVENTS_CHANNEL, (message: string) =>
+        this.handleRemoteMessage(message)
+      )
+      .catch((error) => logger.error('Failed to subscribe to room bus', error));
+    this.subscriber
+      .subscribe(RELAY_CHANNEL_PREFIX + instanceId, (message: string) =>
+        this.handleRelayMessage(message)
+      )
+      .catch((error) =>
+        logger.error('Failed to subscribe to relay channel', error)
+      );
+
+    this.renewTimer = setInterval(() => {
+      this.renewOwnership().catch((error) =>
+        logger.error('Failed to renew room ownership', error)
+      );
+    }, OWNER_TTL_MS / 3);
+  }
+
+  publish(event: RoomBusEvent): void {
+    this.deliver(event);
+
+    const message: RedisRoomBusMessage = { ...event, origin: this.instanceId };
+    this.publisher
+      .publish(EVENTS_CHANNEL, JSON.stringify(message))
+      .catch((error) =>
+        logger.error(`Failed to publish room event for ${event.roomId}`, error)
+      );
+  }
+
+  subscribe(handler: RoomBusHandler): void {
+    this.handlers.push(handler);
+  }
+
+  sendToInstance(instanceId: string, message: RelayMessage): void {
+    this.publisher
+      .publish(RELAY_CHANNEL_PREFIX + instanceId, JSON.stringify(message))
+      .catch((error) =>
+        logger.error(
+          `Failed to relay ${message.kind} to instance ${instanceId}`,
+          error
+        )
+      );
+  }
+
+  onRelay(handler: RelayHandler): void {
+    this.relayHandlers.push(handler);
+  }
+
+  async claimRoom(roomId: string): Promise<boolean> {
+    const key = OWNER_KEY_PREFIX + roomId;
+    const result = await this.publisher.send('SET', [
+      key,
+      this.instanceId,
+      'NX',
+      'PX',
+      String(OWNER_TTL_MS),
+    ]);
+    const owner =
+      result === 'OK' ? this.instanceId : await this.publisher.get(key);
+
+    if (owner !== this.instanceId) {
+      return false;
+    }
+
+    this.ownedRooms.add(roomId);
+    return true;
+  }
+
+  async releaseRoom(roomId: string): Promise<void> {
+    if (!this.ownedRooms.delete(roomId)) {
+      return;
+    }
+
+    const key = OWNER_KEY_PREFIX + roomId;
+    if ((await this.publisher.get(key)) === this.instanceId) {
+      await this.publisher.del(key);
+    }
+  }
+
+  isRoomOwner(roomId: string): boolean {
+    return this.ownedRooms.has(roomId);
+  }
+
+  async setLocation(key: string, ttlMs: number): Promise<void> {
+    await this.publisher.send('SET', [
+      LOCATION_KEY_PREFIX + key,
+      this.instanceId,
+      'PX',
+      String(ttlMs),
+    ]);
+  }
+
+  async clearLocation(key: string): Promise<void> {
+    if (
+      (await this.publisher.get(LOCATION_KEY_PREFIX + key)) === this.instanceId
+    ) {
+      await this.publisher.del(LOCATION_KEY_PREFIX + key);
+    }
+  }
+
+  locate(key: string): Promise<string | null> {
+    return this.publisher.get(LOCATION_KEY_PREFIX + key);
+  }
+
+  close(): void {
+    clearInterval(this.renewTimer);
+    this.handlers = [];
+    this.relayHandlers = [];
+    this.ownedRooms.clear();
+    this.subscriber.close();
+    this.publisher.close();
+  }
+
+  private handleRemoteMessage(raw: string): void {
+    try {
+      const { origin, ...event } = JSON.parse(raw) as RedisRoomBusMessage;
+      if (origin === this.instanceId) {
+        return;
+      }
+      this.deliver(event);
+    } catch (error) {
+      logger.warn('Dropping malformed room bus message', error);
+    }
+  }
+
+  private handleRelayMessage(raw: string): void {
+    try {
+      const message = JSON.parse(raw) as RelayMessage;
+      for (const handler of this.relayHandlers) {
+        handler(message);
+      }
+    } catch (error) {
+      logger.warn('Dropping malformed relay message', error);
+    }
+  }
+
+  private deliver(event: RoomBusEvent): void {
+    for (const handler of this.handlers) {
+      handler(event);
+    }
+  }
+
+  private async renewOwnership(): Promise<void> {
+    await Promise.all(
+      Array.from(this.ownedRooms, (roomId) => this.renewRoomOwnership(roomId))
+    );
+  }
+
+  private async renewRoomOwnership(roomId: string): Promise<void> {
+    const key = OWNER_KEY_PREFIX + roomId;
+    const owner = await this.publisher.get(key);
+
+    if (owner === this.instanceId) {
+      await this.publisher.pexpire(key, OWNER_TTL_MS);
+    } else if (owner === null) {
+      this.ownedRooms.delete(roomId);
+      await this.claimRoom(roomId);
+    } else {
+      logger.warn(`Lost ownership of room ${roomId} to instance ${owner}`);
+      this.ownedRooms.delete(roomId);
+    }
+  }
+}
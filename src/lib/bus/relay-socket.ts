@@ -0,0 +1,57 @@
+import type { CustomWebSocket, WebSocketData } from '../../types/entities';
+import type { RoomBus } from './types';
+
+/**
+ * Stands in, on the instance that owns a room, for a client socket held by another
+ * instance. Whatever the managers send on it or close it with is relayed back there.
+ */
+export class RelaySocket {
+  readonly origin: string;
+  data: WebSocketData;
+  readyState: number = WebSocket.OPEN;
+  private bus: RoomBus;
+
+  constructor(bus: RoomBus, origin: string, data: WebSocketData) {
+    this.bus = bus;
+    this.origin = origin;
+    this.data = { ...data, relayOrigin: origin };
+  }
+
+  send(message: string): number {
+    if (this.readyState !== WebSocket.OPEN || !this.data.userId) {
+      return 0;
+    }
+
+    this.bus.sendToInstance(this.origin, {
+      kind: 'send',
+      userId: this.data.userId,
+      connectionId: this.data.connectionId,
+      payload: message,
+    });
+    return message.length;
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.readyState !== WebSocket.OPEN || !this.data.userId) {
+      return;
+    }
+
+    this.readyState = WebSocket.CLOSED;
+    this.bus.sendToInstance(this.origin, {
+      kind: 'disconnect',
+      userId: this.data.userId,
+      connectionId: this.data.connectionId,
+      code,
+      reason,
+    });
+  }
+
+  /** Nothing is buffered here; backpressure is enforced on the instance holding the real socket */
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  asWebSocket(): CustomWebSocket {
+    return this as unknown as CustomWebSocket;
+  }
+}
@@ -0,0 +1,328 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  listen,
+  type Socket,
+  type Subprocess,
+  sleep,
+  spawn,
+  type TCPSocketListener,
+} from 'bun';
+import { WS_MESSAGE_TYPES } from '../constants/ws-message-types';
+
+/**
+ * Just enough of the Redis protocol for RedisRoomBus: strings with SET NX/PX, GET, DEL,
+ * PEXPIRE, and PUBLISH/SUBSCRIBE. Expiry is ignored; nothing here outlives the test.
+ */
+type RespSocket = Socket<{ buffer: Buffer }>;
+
+const startRespServer = (): {
+  listener: TCPSocketListener<{ buffer: Buffer }>;
+  subscribers: Map<string, Set<RespSocket>>;
+} => {
+  const values = new Map<string, string>();
+  const subscribers = new Map<string, Set<RespSocket>>();
+  const bulk = (value: string | null) =>
+    value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+  const parseCommand = (buffer: Buffer): [string[], number] | null => {
+    let lineEnd = buffer.indexOf('\r\n');
+    if (buffer[0] !== 0x2a || lineEnd < 0) {
+      return null;
+    }
+
+    const count = Number(buffer.subarray(1, lineEnd).toString());
+    const args: string[] = [];
+    let position = lineEnd + 2;
+    for (let i = 0; i < count; i++) {
+      lineEnd = buffer.indexOf('\r\n', position);
+      if (lineEnd < 0) {
+        return null;
+      }
+      const length = Number(buffer.subarray(position + 1, lineEnd).toString());
+      const start = lineEnd + 2;
+      if (buffer.length < start + length + 2) {
+        return null;
+      }
+      args.push(buffer.subarray(start, start + length).toString());
+      position = start + length + 2;
+    }
+    return [args, position];
+  };
+
+  const subscribe = (socket: RespSocket, channels: string[]): string =>
+    channels
+      .map((channel) => {
+        const set = subscribers.get(channel) ?? new Set();
+        subscribers.set(channel, set.add(socket));
+        return `>3\r\n${bulk('subscribe')}${bulk(channel)}:1\r\n`;
+      })
+      .join('');
+
+  const publish = (channel: string, message: string): string => {
+    const set = subscribers.get(channel) ?? new Set();
+    for (const subscriber of set) {
+      subscriber.write(
+        `>3\r\n${bulk('message')}${bulk(channel)}${bulk(message)}`
+      );
+    }
+    return `:${set.size}\r\n`;
+  };
+
+  const execute = (
+    socket: RespSocket,
+    [command, ...args]: string[]
+  ): string => {
+    switch (command.toUpperCase()) {
+      case 'HELLO':
+        return '%2\r\n+server\r\n+redis\r\n+proto\r\n:3\r\n';
+      case 'SET':
+        if (args.includes('NX') && values.has(args[0])) {
+          return '$-1\r\n';
+        }
+        values.set(args[0], args[1]);
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(values.get(args[0]) ?? null);
+      case 'DEL':
+        return `:${values.delete(args[0]) ? 1 : 0}\r\n`;
+      case 'PEXPIRE':
+        return `:${values.has(args[0]) ? 1 : 0}\r\n`;
+      case 'SUBSCRIBE':
+        return subscribe(socket, args);
+      case 'PUBLISH':
+        return publish(args[0], args[1]);
+      default:
+        return '+OK\r\n';
+    }
+  };
+
+  const listener = listen<{ buffer: Buffer }>({
+    hostname: '127.0.0.1',
+    port: 0,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: Buffer.alloc(0) };
+      },
+      data(socket, chunk) {
+        socket.data.buffer = Buffer.concat([socket.data.buffer, chunk]);
+        for (
+          let parsed = parseCommand(socket.data.buffer);
+          parsed;
+          parsed = parseCommand(socket.data.buffer)
+        ) {
+          socket.data.buffer = socket.data.buffer.subarray(parsed[1]);
+          socket.write(execute(socket, parsed[0]));
+        }
+      },
+      close(socket) {
+        for (const set of subscribers.values()) {
+          set.delete(socket);
+        }
+      },
+    },
+  });
+
+  return { listener, subscribers };
+};
+
+interface ServerMessage {
+  type: string;
+  // biome-ignore lint/suspicious/noExplicitAny: payloads differ per message type; tests read what they expect
+  data: any;
+}
+
+interface TestClient {
+  send: (type: string, data?: unknown) => void;
+  next: (type: string) => Promise<ServerMessage>;
+  close: () => void;
+}
+
+/** The test environment's allowed origin */
+const ORIGIN = 'http://localhost:3000';
+
+const issueSession = (port: number) =>
+  fetch(`http://127.0.0.1:${port}/api/session`, {
+    method: 'POST',
+    headers: { origin: ORIGIN },
+  });
+
+const connectClient = async (port: number): Promise<TestClient> => {
+  const session = (await (await issueSession(port)).json()) as {
+    data: { token: string };
+  };
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+    headers: { cookie: `session_token=${session.data.token}`, origin: ORIGIN },
+  });
+
+  const received: ServerMessage[] = [];
+  const waiting: {
+    type: string;
+    resolve: (message: ServerMessage) => void;
+  }[] = [];
+  ws.onmessage = (event) => {
+    const message: ServerMessage = JSON.parse(String(event.data));
+    const waiter = waiting.find((w) => w.type === message.type);
+    if (waiter) {
+      waiting.splice(waiting.indexOf(waiter), 1);
+      waiter.resolve(message);
+    } else {
+      received.push(message);
+    }
+  };
+  await new Promise((resolve) => {
+    ws.onopen = resolve;
+  });
+
+  return {
+    send: (type, data = {}) => ws.send(JSON.stringify({ type, data })),
+    next: (type) => {
+      const index = received.findIndex((message) => message.type === type);
+      if (index !== -1) {
+        return Promise.resolve(received.splice(index, 1)[0]);
+      }
+      return new Promise((resolve) => waiting.push({ type, resolve }));
+    },
+    close: () => ws.close(),
+  };
+};
+
+const waitFor = async (
+  condition: () => boolean | Promise<boolean>,
+  timeoutMs = 10_000
+) => {
+  const deadline = Date.now() + timeoutMs;
+  // biome-ignore lint/nursery/noAwaitInLoop: polling, each check has to see the previous one's outcome
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the test servers');
+    }
+    await sleep(50);
+  }
+};
+
+type TestServer = Subprocess<'ignore', 'pipe', 'inherit'>;
+
+const LISTENING_PORT = /server running on https?:\/\/[^\s"]+:(\d+)/;
+
+/**
+ * Servers start on PORT=0 and log the URL they ended up on; this reads the port
+ * from that line, then keeps draining stdout so the server never blocks on a full pipe.
+ */
+const readListeningPort = (server: TestServer): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const decoder = new TextDecoder();
+    let output = '';
+    let found = false;
+
+    const drain = async () => {
+      for await (const chunk of server.stdout) {
+        if (found) {
+          continue;
+        }
+        output += decoder.decode(chunk, { stream: true });
+        const match = output.match(LISTENING_PORT);
+        if (match) {
+          found = true;
+          resolve(Number(match[1]));
+        }
+      }
+      reject(new Error('Test server exited before it started listening'));
+    };
+    drain().catch(reject);
+  });
+
+const INSTANCE_IDS = ['relay-test-a', 'relay-test-b'];
+
+let resp: ReturnType<typeof startRespServer>;
+const servers: TestServer[] = [];
+const ports: number[] = [];
+const clients: TestClient[] = [];
+
+beforeAll(async () => {
+  resp = startRespServer();
+
+  for (const id of INSTANCE_IDS) {
+    servers.push(
+      spawn(['bun', 'run', 'src/app.ts'], {
+        cwd: `${import.meta.dir}/../../..`,
+        env: {
+          ...process.env,
+          NODE_ENV: 'test',
+          PORT: '0',
+          INSTANCE_ID: id,
+          ROOM_BUS_DRIVER: 'redis',
+          REDIS_URL: `redis://127.0.0.1:${resp.listener.port}`,
+          SESSION_TOKEN_SECRETS: 'relay-test-secret',
+          DAILY_CHALLENGE_SECRET: 'relay-test-daily',
+          ADMIN_API_KEY: 'relay-test-admin',
+          // The startup line carrying the port is logged at info
+          LOG_LEVEL: 'info',
+          LOG_FORMAT: 'json',
+        },
+        stdout: 'pipe',
+        stderr: 'inherit',
+      })
+    );
+  }
+
+  ports.push(...(await Promise.all(servers.map(readListeningPort))));
+  await waitFor(() =>
+    INSTANCE_IDS.every(
+      (id) => resp.subscribers.get(`flags:relay:${id}`)?.size === 1
+    )
+  );
+}, 20_000);
+
+afterAll(async () => {
+  for (const client of clients) {
+    client.close();
+  }
+  for (const server of servers) {
+    server.kill();
+  }
+  await Promise.all(servers.map((server) => server.exited));
+  resp.listener.stop(true);
+});
+
+describe('rooms across instances', () => {
+  test('a player connected to another instance joins and plays in the room', async () => {
+    const host = await connectClient(ports[0]);
+    const player = await connectClient(ports[1]);
+    clients.push(host, player);
+    await host.next(WS_MESSAGE_TYPES.AUTH_SUCCESS);
+    await player.next(WS_MESSAGE_TYPES.AUTH_SUCCESS);
+
+    host.send(WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'host',
+      settings: { difficulty: 'easy', maxRoomSize: 2, timePerQuestion: 10 },
+    });
+    const { inviteCode } = (
+      await host.next(WS_MESSAGE_TYPES.CREATE_ROOM_SUCCESS)
+    ).data.room;
+
+    player.send(WS_MESSAGE_TYPES.JOIN_ROOM, { inviteCode, username: 'player' });
+    const joined = await player.next(WS_MESSAGE_TYPES.JOIN_ROOM_SUCCESS);
+    expect(
+      joined.data.room.members.map(
+        (member: { username: string }) => member.username
+      )
+    ).toEqual(['host', 'player']);
+    expect(
+      (await host.next(WS_MESSAGE_TYPES.USER_JOINED)).data.user.username
+    ).toBe('player');
+
+    host.send(WS_MESSAGE_TYPES.START_GAME);
+    const { question } = (await host.next(WS_MESSAGE_TYPES.NEW_QUESTION)).data;
+    expect(
+      (await player.next(WS_MESSAGE_TYPES.NEW_QUESTION)).data.question.id
+    ).toBe(question.id);
+
+    player.send(WS_MESSAGE_TYPES.SUBMIT_ANSWER, {
+      answer: question.options[0].code,
+      questionId: question.id,
+    });
+    expect(
+      (await host.next(WS_MESSAGE_TYPES.ANSWER_SUBMITTED)).data.userId
+    ).toBe(joined.data.user.id);
+  }, 20_000);
+});
@@ -0,0 +1,49 @@
+export interface RoomBusEvent {
+  roomId: string;
+  /** Serialized WebSocket message, sent to clients as-is */
+  payload: string;
+  exclude: string[];
+}
+
+export type RoomBusHandler = (event: RoomBusEvent) => void;
+
+/**
+ * Point-to-point message between the instance holding a client's socket and
+ * the instance that owns the client's room. "open", "message" and "close"
+ * travel to the owner; "send", "disconnect" and "detach" travel back.
+ */
+export interface RelayMessage {
+  kind: 'open' | 'message' | 'close' | 'send' | 'disconnect' | 'detach';
+  userId: string;
+  connectionId: string;
+  /** Instance holding the client's socket; set on messages to the owner */
+  origin?: string;
+  ipAddress?: string;
+  /** Raw client message for "message", serialized server message for "send" */
+  payload?: string;
+  code?: number;
+  reason?: string;
+}
+
+export type RelayHandler = (message: RelayMessage) => void;
+
+export interface RoomBus {
+  readonly instanceId: string;
+  /** Delivers the event to subscribers on every instance, this one included */
+  publish(event: RoomBusEvent): void;
+  subscribe(handler: RoomBusHandler): void;
+  /** Delivers the message to relay handlers on one instance only */
+  sendToInstance(instanceId: string, message: RelayMessage): void;
+  onRelay(handler: RelayHandler): void;
+  /** Resolves false when another instance already owns the room */
+  claimRoom(roomId: string): Promise<boolean>;
+  releaseRoom(roomId: string): Promise<void>;
+  isRoomOwner(roomId: string): boolean;
+  /** Records this instance as the home of a key (an invite code, a user) until the TTL runs out */
+  setLocation(key: string, ttlMs: number): Promise<void>;
+  /** Forgets the key, unless another instance has taken it over since */
+  clearLocation(key: string): Promise<void>;
+  /** Instance the key was last recorded on, or null */
+  locate(key: string): Promise<string | null>;
+  close(): void;
+}
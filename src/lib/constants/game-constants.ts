@@ -1,5 +1,7 @@
 export const CORRECT_POINT_COST = 10;
 export const MAX_HEARTS = 3;
+export const SPEED_BONUS_MAX_POINTS = 10;
+export const FIRST_CORRECT_BONUS_POINTS = 5;
 
 export type Difficulty = "easy" | "medium" | "hard" | "expert";
 
@@ -7,6 +9,51 @@ export const DIFFICULTY_LEVELS = ["easy", "medium", "hard", "expert"] as const;
 
 export const GAME_MODES = ["classic", "speed", "elimination"] as const;
 
+export const QUESTION_TYPES = [
+  "flag-to-name",
+  "name-to-flag",
+  "flag-to-capital",
+  "flag-to-continent",
+  "capital-to-flag",
+] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+/** What "mixed" alternates between, in order */
+export const MIXED_QUESTION_TYPES: readonly QuestionType[] = ["flag-to-name", "name-to-flag"];
+
+/** Room setting; "mixed" alternates between flag-to-name and name-to-flag */
+export const QUESTION_TYPE_SETTINGS = [...QUESTION_TYPES, "mixed"] as const;
+export type QuestionTypeSetting = (typeof QUESTION_TYPE_SETTINGS)[number];
+
+export const DEFAULT_QUESTION_TYPE: QuestionType = "flag-to-name";
+
+export const MIN_OPTION_COUNT = 2;
+export const MAX_OPTION_COUNT = 8;
+
+/** Options per question when a room doesn't pick a count: fewer on easy, more on expert */
+export const DEFAULT_OPTION_COUNTS: Record<Difficulty, number> = {
+  easy: 3,
+  medium: 4,
+  hard: 5,
+  expert: 6,
+};
+
+/**
+ * What a room's country pool filters on: a continent or region name from the
+ * country data, a SUB_REGIONS key or an EXPERT_COUNTRY_POOLS key
+ */
+export const COUNTRY_POOL_KINDS = ["continent", "region", "subRegion", "expertPool"] as const;
+export type CountryPoolKind = (typeof COUNTRY_POOL_KINDS)[number];
+
+export interface CountryPool {
+  kind: CountryPoolKind;
+  key: string;
+}
+
+/** "typing" asks for the answer as free text on questions that show a flag; the rest stay multiple choice */
+export const ANSWER_MODES = ["choice", "typing"] as const;
+export type AnswerMode = (typeof ANSWER_MODES)[number];
+
 export const DEFAULT_DIFFICULTY: Difficulty = "easy";
 export const MEDIUM_DIFFICULTY: Difficulty = "medium";
 export const HARD_DIFFICULTY: Difficulty = "hard";
@@ -22,6 +69,12 @@ export const INAPPROPRIATE_WORDS = [
   'admin', 'moderator', 'bot', 'system', 'null', 'undefined'
 ] as const; 
 
+export const MAX_SPECTATORS_PER_ROOM = 20;
+
 export const MAX_ROOM_LIFETIME_MS = 4 * 60 * 60 * 1000;
 
-export const TIME_PER_QUESTION_ALLOWED = [10, 15, 20, 30] as const;
\ No newline at end of file
+export const TIME_PER_QUESTION_ALLOWED = [10, 15, 20, 30] as const;
+
+export const DAILY_CHALLENGE_QUESTION_COUNT = 10;
+export const DAILY_CHALLENGE_DIFFICULTY: Difficulty = MEDIUM_DIFFICULTY;
+export const DAILY_CHALLENGE_TIME_PER_QUESTION = 20;
@@ -1,13 +1,18 @@
 export const WS_MESSAGE_TYPES = {
   AUTH_SUCCESS: "AUTH_SUCCESS",
+  GAME_STATE_SYNC: "GAME_STATE_SYNC",
   SUBMIT_ANSWER: "SUBMIT_ANSWER",
   START_GAME: "START_GAME",
   JOIN_ROOM: "JOIN_ROOM",
+  JOIN_AS_SPECTATOR: "JOIN_AS_SPECTATOR",
+  PROMOTE_SPECTATOR: "PROMOTE_SPECTATOR",
   CREATE_ROOM: "CREATE_ROOM",
   UPDATE_ROOM_SETTINGS: "UPDATE_ROOM_SETTINGS",
   UPDATE_PROFILE: "UPDATE_PROFILE",
   KICK_USER: "KICK_USER",
   LEAVE_ROOM: "LEAVE_ROOM",
+  DAILY_CHALLENGE_START: "DAILY_CHALLENGE_START",
+  DAILY_CHALLENGE_ANSWER: "DAILY_CHALLENGE_ANSWER",
 
   STOP_GAME: "STOP_GAME",
   RESTART_GAME: "RESTART_GAME",
@@ -16,8 +21,11 @@ export const WS_MESSAGE_TYPES = {
   CREATE_ROOM_SUCCESS: "CREATE_ROOM_SUCCESS",
   USER_JOINED: "USER_JOINED",
   USER_LEFT: "USER_LEFT",
+  USER_DISCONNECTED: "USER_DISCONNECTED",
+  USER_RECONNECTED: "USER_RECONNECTED",
   USER_KICKED: "USER_KICKED",
   HOST_CHANGED: "HOST_CHANGED",
+  SPECTATOR_PROMOTED: "SPECTATOR_PROMOTED",
   KICKED: "KICKED",
   GAME_STARTING: "GAME_STARTING",
   NEW_QUESTION: "NEW_QUESTION",
@@ -26,6 +34,8 @@ export const WS_MESSAGE_TYPES = {
   GAME_ENDED: "GAME_ENDED",
   GAME_STOPPED: "GAME_STOPPED",
   GAME_RESTARTED: "GAME_RESTARTED",
+  HEARTS_UPDATED: "HEARTS_UPDATED",
+  PLAYER_ELIMINATED: "PLAYER_ELIMINATED",
 
   SETTINGS_UPDATED: "SETTINGS_UPDATED",
   PROFILE_UPDATED: "PROFILE_UPDATED",
@@ -34,6 +44,12 @@ export const WS_MESSAGE_TYPES = {
 
   ROOM_TTL_WARNING: "ROOM_TTL_WARNING",
   ROOM_EXPIRED: "ROOM_EXPIRED",
+  ROOM_CLOSED: "ROOM_CLOSED",
+  SYSTEM_MESSAGE: "SYSTEM_MESSAGE",
+
+  DAILY_CHALLENGE_QUESTION: "DAILY_CHALLENGE_QUESTION",
+  DAILY_CHALLENGE_ANSWER_RESULT: "DAILY_CHALLENGE_ANSWER_RESULT",
+  DAILY_CHALLENGE_COMPLETE: "DAILY_CHALLENGE_COMPLETE",
 } as const;
 
 export type WSMessageType = (typeof WS_MESSAGE_TYPES)[keyof typeof WS_MESSAGE_TYPES];
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { AnswerSchema } from '../utils/validation';
+import { matchTypedAnswer } from './answer-matching';
+
+/** Runs the input through the same schema SUBMIT_ANSWER uses before matching */
+const submit = (input: string, correctLabel: string, countryCode: string) =>
+  matchTypedAnswer(
+    AnswerSchema.parse(input),
+    'flag-to-name',
+    correctLabel,
+    countryCode
+  );
+
+describe('typed answers with punctuation', () => {
+  test("accepts an ampersand for 'and'", () => {
+    const match = submit('Trinidad & Tobago', 'Trinidad and Tobago', 'TT');
+    expect(match.isCorrect).toBe(true);
+    expect(match.distance).toBe(0);
+  });
+
+  test('accepts apostrophes and accents in aliases', () => {
+    expect(submit("Côte d'Ivoire", 'Ivory Coast', 'CI')).toMatchObject({
+      isCorrect: true,
+      distance: 0,
+    });
+    expect(submit('Cote d’Ivoire', 'Ivory Coast', 'CI')).toMatchObject({
+      isCorrect: true,
+      distance: 0,
+    });
+  });
+
+  test("accepts hyphens and 'St' abbreviations", () => {
+    expect(submit('Guinea Bissau', 'Guinea-Bissau', 'GW').isCorrect).toBe(true);
+    expect(submit('St. Lucia', 'Saint Lucia', 'LC').isCorrect).toBe(true);
+  });
+
+  test('keeps the input as typed', () => {
+    expect(AnswerSchema.parse('Bosnia & Herzegovina')).toBe(
+      'Bosnia & Herzegovina'
+    );
+  });
+});
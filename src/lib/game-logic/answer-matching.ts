@@ -0,0 +1,131 @@
+import type { QuestionType } from '../constants';
+import { countriesWithAdditional } from './data/countries';
+import { COUNTRY_ALIASES } from './data/countryAliases';
+
+export interface TypedAnswerMatch {
+  isCorrect: boolean;
+  /** Accepted spelling closest to what was typed */
+  closestMatch: string;
+  /** Edit distance between the normalised input and closestMatch */
+  distance: number;
+  /** Wrong, but only a few letters away from being accepted */
+  isNearMiss: boolean;
+}
+
+const NEAR_MISS_MARGIN = 2;
+const LEADING_THE = /^the /;
+
+/** Lowercase, no accents or punctuation, "St" spelled out and no leading "The" */
+export const normalizeAnswer = (input: string): string =>
+  input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019\u02bb`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(LEADING_THE, '')
+    .replace(/\bst\b/g, 'saint');
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) {
+    return 0;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return Math.max(a.length, b.length);
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** No typos allowed on short names like "Chad" or "Rome", up to two on long ones */
+const allowedDistance = (length: number): number => {
+  if (length <= 4) {
+    return 0;
+  }
+  return length <= 8 ? 1 : 2;
+};
+
+/**
+ * Every country name, alias and capital, normalised, mapped to the countries
+ * it belongs to. A typo is never accepted when the player actually typed a
+ * different country ("Austria" for "Australia").
+ */
+const knownAnswers = new Map<string, Set<string>>();
+for (const country of countriesWithAdditional) {
+  const names = [
+    country.name,
+    country.capital,
+    ...(COUNTRY_ALIASES[country.code] ?? []),
+  ];
+  for (const name of names) {
+    if (!name) {
+      continue;
+    }
+    const key = normalizeAnswer(name);
+    const codes = knownAnswers.get(key) ?? new Set<string>();
+    codes.add(country.code);
+    knownAnswers.set(key, codes);
+  }
+}
+
+/**
+ * Checks a typed answer against the correct option's label. Country names
+ * also accept the alias table; capitals and continents only their label.
+ */
+export const matchTypedAnswer = (
+  input: string,
+  questionType: QuestionType,
+  correctLabel: string,
+  countryCode: string
+): TypedAnswerMatch => {
+  const typed = normalizeAnswer(input);
+  const accepted =
+    questionType === 'flag-to-name'
+      ? [correctLabel, ...(COUNTRY_ALIASES[countryCode] ?? [])]
+      : [correctLabel];
+
+  let closestMatch = correctLabel;
+  let distance = Number.POSITIVE_INFINITY;
+  let tolerance = 0;
+  for (const answer of accepted) {
+    const normalized = normalizeAnswer(answer);
+    const candidateDistance = levenshtein(typed, normalized);
+    if (candidateDistance < distance) {
+      closestMatch = answer;
+      distance = candidateDistance;
+      tolerance = allowedDistance(normalized.length);
+    }
+  }
+
+  if (!typed) {
+    return { isCorrect: false, closestMatch, distance, isNearMiss: false };
+  }
+
+  const namedCountries =
+    questionType === 'flag-to-continent' ? undefined : knownAnswers.get(typed);
+  const namesAnotherCountry =
+    namedCountries !== undefined && !namedCountries.has(countryCode);
+
+  const isCorrect =
+    distance === 0 || (!namesAnotherCountry && distance <= tolerance);
+  const isNearMiss =
+    !(isCorrect || namesAnotherCountry) &&
+    distance <= tolerance + NEAR_MISS_MARGIN;
+
+  return { isCorrect, closestMatch, distance, isNearMiss };
+};
@@ -1,271 +1,282 @@
+/**
+ * Rough population bands: micro under 1M, small 1–10M, medium 10–50M,
+ * large 50–200M, huge above 200M.
+ */
+export type PopulationTier = "micro" | "small" | "medium" | "large" | "huge";
+
 export interface Country {
   name: string;
   code: string;
+  /** ISO 3166-1 alpha-3; null for codes outside the standard, such as GB-ENG */
+  alpha3: string | null;
   continent: string;
   region: string;
+  /** Null where there is no permanent seat of government, such as Antarctica */
+  capital: string | null;
+  populationTier: PopulationTier;
 }
 
 export const countries: Country[] = [
-  { name: "United States", code: "US", continent: "North America", region: "Americas" },
-  { name: "United Kingdom", code: "GB", continent: "Europe", region: "Europe" },
-  { name: "France", code: "FR", continent: "Europe", region: "Europe" },
-  { name: "Germany", code: "DE", continent: "Europe", region: "Europe" },
-  { name: "Italy", code: "IT", continent: "Europe", region: "Europe" },
-  { name: "Spain", code: "ES", continent: "Europe", region: "Europe" },
-  { name: "Canada", code: "CA", continent: "North America", region: "Americas" },
-  { name: "Australia", code: "AU", continent: "Oceania", region: "Oceania" },
-  { name: "Japan", code: "JP", continent: "Asia", region: "Asia" },
-  { name: "China", code: "CN", continent: "Asia", region: "Asia" },
-  { name: "India", code: "IN", continent: "Asia", region: "Asia" },
-  { name: "Brazil", code: "BR", continent: "South America", region: "Americas" },
-  { name: "Mexico", code: "MX", continent: "North America", region: "Americas" },
-  { name: "Russia", code: "RU", continent: "Europe/Asia", region: "Europe/Asia" },
-  { name: "South Korea", code: "KR", continent: "Asia", region: "Asia" },
-  { name: "The Netherlands", code: "NL", continent: "Europe", region: "Europe" },
-  { name: "Belgium", code: "BE", continent: "Europe", region: "Europe" },
-  { name: "Switzerland", code: "CH", continent: "Europe", region: "Europe" },
-  { name: "Austria", code: "AT", continent: "Europe", region: "Europe" },
-  { name: "Sweden", code: "SE", continent: "Europe", region: "Europe" },
-  { name: "Norway", code: "NO", continent: "Europe", region: "Europe" },
-  { name: "Denmark", code: "DK", continent: "Europe", region: "Europe" },
-  { name: "Finland", code: "FI", continent: "Europe", region: "Europe" },
-  { name: "Poland", code: "PL", continent: "Europe", region: "Europe" },
-  { name: "Portugal", code: "PT", continent: "Europe", region: "Europe" },
-  { name: "Greece", code: "GR", continent: "Europe", region: "Europe" },
-  { name: "Turkey", code: "TR", continent: "Asia", region: "Middle East" },
-  { name: "Egypt", code: "EG", continent: "Africa", region: "Middle East" },
-  { name: "South Africa", code: "ZA", continent: "Africa", region: "Africa" },
-  { name: "Nigeria", code: "NG", continent: "Africa", region: "Africa" },
-  { name: "Kenya", code: "KE", continent: "Africa", region: "Africa" },
-  { name: "Morocco", code: "MA", continent: "Africa", region: "Africa" },
-  { name: "Argentina", code: "AR", continent: "South America", region: "Americas" },
-  { name: "Chile", code: "CL", continent: "South America", region: "Americas" },
-  { name: "Colombia", code: "CO", continent: "South America", region: "Americas" },
-  { name: "Peru", code: "PE", continent: "South America", region: "Americas" },
-  { name: "Venezuela", code: "VE", continent: "South America", region: "Americas" },
-  { name: "Thailand", code: "TH", continent: "Asia", region: "Asia" },
-  { name: "Vietnam", code: "VN", continent: "Asia", region: "Asia" },
-  { name: "Singapore", code: "SG", continent: "Asia", region: "Asia" },
-  { name: "Malaysia", code: "MY", continent: "Asia", region: "Asia" },
-  { name: "Indonesia", code: "ID", continent: "Asia", region: "Asia" },
-  { name: "Philippines", code: "PH", continent: "Asia", region: "Asia" },
-  { name: "New Zealand", code: "NZ", continent: "Oceania", region: "Oceania" },
-  { name: "Ireland", code: "IE", continent: "Europe", region: "Europe" },
-  { name: "Iceland", code: "IS", continent: "Europe", region: "Europe" },
-  { name: "Czech Republic", code: "CZ", continent: "Europe", region: "Europe" },
-  { name: "Hungary", code: "HU", continent: "Europe", region: "Europe" },
-  { name: "Romania", code: "RO", continent: "Europe", region: "Europe" },
-  { name: "Bulgaria", code: "BG", continent: "Europe", region: "Europe" },
-  { name: "Croatia", code: "HR", continent: "Europe", region: "Europe" },
-  { name: "Slovenia", code: "SI", continent: "Europe", region: "Europe" },
-  { name: "Slovakia", code: "SK", continent: "Europe", region: "Europe" },
-  { name: "Estonia", code: "EE", continent: "Europe", region: "Europe" },
-  { name: "Latvia", code: "LV", continent: "Europe", region: "Europe" },
-  { name: "Lithuania", code: "LT", continent: "Europe", region: "Europe" },
-  { name: "Ukraine", code: "UA", continent: "Europe", region: "Europe" },
-  { name: "Belarus", code: "BY", continent: "Europe", region: "Europe" },
-  { name: "Moldova", code: "MD", continent: "Europe", region: "Europe" },
-  { name: "Serbia", code: "RS", continent: "Europe", region: "Europe" },
-  { name: "Bosnia and Herzegovina", code: "BA", continent: "Europe", region: "Europe" },
-  { name: "Montenegro", code: "ME", continent: "Europe", region: "Europe" },
-  { name: "North Macedonia", code: "MK", continent: "Europe", region: "Europe" },
-  { name: "Albania", code: "AL", continent: "Europe", region: "Europe" },
-  { name: "Cyprus", code: "CY", continent: "Asia", region: "Middle East" },
-  { name: "Malta", code: "MT", continent: "Europe", region: "Europe" },
-  { name: "Luxembourg", code: "LU", continent: "Europe", region: "Europe" },
-  { name: "Monaco", code: "MC", continent: "Europe", region: "Europe" },
-  { name: "Liechtenstein", code: "LI", continent: "Europe", region: "Europe" },
-  { name: "San Marino", code: "SM", continent: "Europe", region: "Europe" },
-  { name: "Vatican City", code: "VA", continent: "Europe", region: "Europe" },
-  { name: "Andorra", code: "AD", continent: "Europe", region: "Europe" },
-  { name: "Israel", code: "IL", continent: "Asia", region: "Middle East" },
-  { name: "Jordan", code: "JO", continent: "Asia", region: "Middle East" },
-  { name: "Lebanon", code: "LB", continent: "Asia", region: "Middle East" },
-  { name: "Syria", code: "SY", continent: "Asia", region: "Middle East" },
-  { name: "Iraq", code: "IQ", continent: "Asia", region: "Middle East" },
-  { name: "Iran", code: "IR", continent: "Asia", region: "Middle East" },
-  { name: "Saudi Arabia", code: "SA", continent: "Asia", region: "Middle East" },
-  { name: "United Arab Emirates", code: "AE", continent: "Asia", region: "Middle East" },
-  { name: "Qatar", code: "QA", continent: "Asia", region: "Middle East" },
-  { name: "Kuwait", code: "KW", continent: "Asia", region: "Middle East" },
-  { name: "Bahrain", code: "BH", continent: "Asia", region: "Middle East" },
-  { name: "Oman", code: "OM", continent: "Asia", region: "Middle East" },
-  { name: "Yemen", code: "YE", continent: "Asia", region: "Middle East" },
-  { name: "Afghanistan", code: "AF", continent: "Asia", region: "Asia" },
-  { name: "Pakistan", code: "PK", continent: "Asia", region: "Asia" },
-  { name: "Bangladesh", code: "BD", continent: "Asia", region: "Asia" },
-  { name: "Sri Lanka", code: "LK", continent: "Asia", region: "Asia" },
-  { name: "Nepal", code: "NP", continent: "Asia", region: "Asia" },
-  { name: "Bhutan", code: "BT", continent: "Asia", region: "Asia" },
-  { name: "Maldives", code: "MV", continent: "Asia", region: "Asia" },
-  { name: "Myanmar", code: "MM", continent: "Asia", region: "Asia" },
-  { name: "Cambodia", code: "KH", continent: "Asia", region: "Asia" },
-  { name: "Laos", code: "LA", continent: "Asia", region: "Asia" },
-  { name: "Mongolia", code: "MN", continent: "Asia", region: "Asia" },
-  { name: "North Korea", code: "KP", continent: "Asia", region: "Asia" },
-  { name: "Kazakhstan", code: "KZ", continent: "Asia", region: "Asia" },
-  { name: "Uzbekistan", code: "UZ", continent: "Asia", region: "Asia" },
-  { name: "Turkmenistan", code: "TM", continent: "Asia", region: "Asia" },
-  { name: "Kyrgyzstan", code: "KG", continent: "Asia", region: "Asia" },
-  { name: "Tajikistan", code: "TJ", continent: "Asia", region: "Asia" },
-  { name: "Azerbaijan", code: "AZ", continent: "Asia", region: "Asia" },
-  { name: "Armenia", code: "AM", continent: "Asia", region: "Asia" },
-  { name: "Georgia", code: "GE", continent: "Asia", region: "Asia" },
-  { name: "Algeria", code: "DZ", continent: "Africa", region: "Africa" },
-  { name: "Tunisia", code: "TN", continent: "Africa", region: "Africa" },
-  { name: "Libya", code: "LY", continent: "Africa", region: "Africa" },
-  { name: "Sudan", code: "SD", continent: "Africa", region: "Africa" },
-  { name: "Ethiopia", code: "ET", continent: "Africa", region: "Africa" },
-  { name: "Somalia", code: "SO", continent: "Africa", region: "Africa" },
-  { name: "Ghana", code: "GH", continent: "Africa", region: "Africa" },
-  { name: "Ivory Coast", code: "CI", continent: "Africa", region: "Africa" },
-  { name: "Senegal", code: "SN", continent: "Africa", region: "Africa" },
-  { name: "Mali", code: "ML", continent: "Africa", region: "Africa" },
-  { name: "Burkina Faso", code: "BF", continent: "Africa", region: "Africa" },
-  { name: "Niger", code: "NE", continent: "Africa", region: "Africa" },
-  { name: "Chad", code: "TD", continent: "Africa", region: "Africa" },
-  { name: "Cameroon", code: "CM", continent: "Africa", region: "Africa" },
-  { name: "Central African Republic", code: "CF", continent: "Africa", region: "Africa" },
-  { name: "Democratic Republic of the Congo", code: "CD", continent: "Africa", region: "Africa" },
-  { name: "Republic of the Congo", code: "CG", continent: "Africa", region: "Africa" },
-  { name: "Gabon", code: "GA", continent: "Africa", region: "Africa" },
-  { name: "Equatorial Guinea", code: "GQ", continent: "Africa", region: "Africa" },
-  { name: "Angola", code: "AO", continent: "Africa", region: "Africa" },
-  { name: "Zambia", code: "ZM", continent: "Africa", region: "Africa" },
-  { name: "Zimbabwe", code: "ZW", continent: "Africa", region: "Africa" },
-  { name: "Botswana", code: "BW", continent: "Africa", region: "Africa" },
-  { name: "Namibia", code: "NA", continent: "Africa", region: "Africa" },
-  { name: "Lesotho", code: "LS", continent: "Africa", region: "Africa" },
-  { name: "Eswatini", code: "SZ", continent: "Africa", region: "Africa" },
-  { name: "Madagascar", code: "MG", continent: "Africa", region: "Africa" },
-  { name: "Mauritius", code: "MU", continent: "Africa", region: "Africa" },
-  { name: "Seychelles", code: "SC", continent: "Africa", region: "Africa" },
-  { name: "Comoros", code: "KM", continent: "Africa", region: "Africa" },
-  { name: "Uruguay", code: "UY", continent: "South America", region: "Americas" },
-  { name: "Paraguay", code: "PY", continent: "South America", region: "Americas" },
-  { name: "Bolivia", code: "BO", continent: "South America", region: "Americas" },
-  { name: "Ecuador", code: "EC", continent: "South America", region: "Americas" },
-  { name: "Guyana", code: "GY", continent: "South America", region: "Americas" },
-  { name: "Suriname", code: "SR", continent: "South America", region: "Americas" },
-  { name: "Costa Rica", code: "CR", continent: "North America", region: "Americas" },
-  { name: "Panama", code: "PA", continent: "North America", region: "Americas" },
-  { name: "Nicaragua", code: "NI", continent: "North America", region: "Americas" },
-  { name: "Honduras", code: "HN", continent: "North America", region: "Americas" },
-  { name: "El Salvador", code: "SV", continent: "North America", region: "Americas" },
-  { name: "Guatemala", code: "GT", continent: "North America", region: "Americas" },
-  { name: "Belize", code: "BZ", continent: "North America", region: "Americas" },
-  { name: "Jamaica", code: "JM", continent: "North America", region: "Americas" },
-  { name: "Cuba", code: "CU", continent: "North America", region: "Americas" },
-  { name: "Haiti", code: "HT", continent: "North America", region: "Americas" },
-  { name: "Dominican Republic", code: "DO", continent: "North America", region: "Americas" },
-  { name: "Trinidad and Tobago", code: "TT", continent: "North America", region: "Americas" },
-  { name: "Barbados", code: "BB", continent: "North America", region: "Americas" },
-  { name: "Saint Lucia", code: "LC", continent: "North America", region: "Americas" },
-  { name: "Grenada", code: "GD", continent: "North America", region: "Americas" },
-  { name: "Saint Vincent and the Grenadines", code: "VC", continent: "North America", region: "Americas" },
-  { name: "Antigua and Barbuda", code: "AG", continent: "North America", region: "Americas" },
-  { name: "Dominica", code: "DM", continent: "North America", region: "Americas" },
-  { name: "Saint Kitts and Nevis", code: "KN", continent: "North America", region: "Americas" },
-  { name: "Bahamas", code: "BS", continent: "North America", region: "Americas" },
-  { name: "Fiji", code: "FJ", continent: "Oceania", region: "Oceania" },
-  { name: "Papua New Guinea", code: "PG", continent: "Oceania", region: "Oceania" },
-  { name: "Solomon Islands", code: "SB", continent: "Oceania", region: "Oceania" },
-  { name: "Vanuatu", code: "VU", continent: "Oceania", region: "Oceania" },
-  { name: "Samoa", code: "WS", continent: "Oceania", region: "Oceania" },
-  { name: "Tonga", code: "TO", continent: "Oceania", region: "Oceania" },
-  { name: "Palau", code: "PW", continent: "Oceania", region: "Oceania" },
-  { name: "Micronesia", code: "FM", continent: "Oceania", region: "Oceania" },
-  { name: "Marshall Islands", code: "MH", continent: "Oceania", region: "Oceania" },
-  { name: "Kiribati", code: "KI", continent: "Oceania", region: "Oceania" },
-  { name: "Nauru", code: "NR", continent: "Oceania", region: "Oceania" },
-  { name: "Tuvalu", code: "TV", continent: "Oceania", region: "Oceania" },
-  { name: "South Sudan", code: "SS", continent: "Africa", region: "Africa" },
-  { name: "Eritrea", code: "ER", continent: "Africa", region: "Africa" },
-  { name: "Djibouti", code: "DJ", continent: "Africa", region: "Africa" },
-  { name: "Rwanda", code: "RW", continent: "Africa", region: "Africa" },
-  { name: "Burundi", code: "BI", continent: "Africa", region: "Africa" },
-  { name: "Uganda", code: "UG", continent: "Africa", region: "Africa" },
-  { name: "Tanzania", code: "TZ", continent: "Africa", region: "Africa" },
-  { name: "Malawi", code: "MW", continent: "Africa", region: "Africa" },
-  { name: "Mozambique", code: "MZ", continent: "Africa", region: "Africa" },
-  { name: "Guinea", code: "GN", continent: "Africa", region: "Africa" },
-  { name: "Guinea-Bissau", code: "GW", continent: "Africa", region: "Africa" },
-  { name: "Sierra Leone", code: "SL", continent: "Africa", region: "Africa" },
-  { name: "Liberia", code: "LR", continent: "Africa", region: "Africa" },
-  { name: "Gambia", code: "GM", continent: "Africa", region: "Africa" },
-  { name: "Mauritania", code: "MR", continent: "Africa", region: "Africa" },
-  { name: "Cape Verde", code: "CV", continent: "Africa", region: "Africa" },
-  { name: "São Tomé and Príncipe", code: "ST", continent: "Africa", region: "Africa" },
-  { name: "Togo", code: "TG", continent: "Africa", region: "Africa" },
-  { name: "Benin", code: "BJ", continent: "Africa", region: "Africa" },
-  { name: "Timor-Leste", code: "TL", continent: "Asia", region: "Asia" },
-  { name: "Brunei", code: "BN", continent: "Asia", region: "Asia" },
-  { name: "Taiwan", code: "TW", continent: "Asia", region: "Asia" },
-  { name: "Palestine", code: "PS", continent: "Asia", region: "Middle East" },
-  { name: "Kosovo", code: "XK", continent: "Europe", region: "Europe" },
+  { name: "United States", code: "US", alpha3: "USA", continent: "North America", region: "Americas", capital: "Washington, D.C.", populationTier: "huge" },
+  { name: "United Kingdom", code: "GB", alpha3: "GBR", continent: "Europe", region: "Europe", capital: "London", populationTier: "large" },
+  { name: "France", code: "FR", alpha3: "FRA", continent: "Europe", region: "Europe", capital: "Paris", populationTier: "large" },
+  { name: "Germany", code: "DE", alpha3: "DEU", continent: "Europe", region: "Europe", capital: "Berlin", populationTier: "large" },
+  { name: "Italy", code: "IT", alpha3: "ITA", continent: "Europe", region: "Europe", capital: "Rome", populationTier: "large" },
+  { name: "Spain", code: "ES", alpha3: "ESP", continent: "Europe", region: "Europe", capital: "Madrid", populationTier: "medium" },
+  { name: "Canada", code: "CA", alpha3: "CAN", continent: "North America", region: "Americas", capital: "Ottawa", populationTier: "medium" },
+  { name: "Australia", code: "AU", alpha3: "AUS", continent: "Oceania", region: "Oceania", capital: "Canberra", populationTier: "medium" },
+  { name: "Japan", code: "JP", alpha3: "JPN", continent: "Asia", region: "Asia", capital: "Tokyo", populationTier: "large" },
+  { name: "China", code: "CN", alpha3: "CHN", continent: "Asia", region: "Asia", capital: "Beijing", populationTier: "huge" },
+  { name: "India", code: "IN", alpha3: "IND", continent: "Asia", region: "Asia", capital: "New Delhi", populationTier: "huge" },
+  { name: "Brazil", code: "BR", alpha3: "BRA", continent: "South America", region: "Americas", capital: "Brasília", populationTier: "huge" },
+  { name: "Mexico", code: "MX", alpha3: "MEX", continent: "North America", region: "Americas", capital: "Mexico City", populationTier: "large" },
+  { name: "Russia", code: "RU", alpha3: "RUS", continent: "Europe/Asia", region: "Europe/Asia", capital: "Moscow", populationTier: "large" },
+  { name: "South Korea", code: "KR", alpha3: "KOR", continent: "Asia", region: "Asia", capital: "Seoul", populationTier: "large" },
+  { name: "The Netherlands", code: "NL", alpha3: "NLD", continent: "Europe", region: "Europe", capital: "Amsterdam", populationTier: "medium" },
+  { name: "Belgium", code: "BE", alpha3: "BEL", continent: "Europe", region: "Europe", capital: "Brussels", populationTier: "medium" },
+  { name: "Switzerland", code: "CH", alpha3: "CHE", continent: "Europe", region: "Europe", capital: "Bern", populationTier: "small" },
+  { name: "Austria", code: "AT", alpha3: "AUT", continent: "Europe", region: "Europe", capital: "Vienna", populationTier: "small" },
+  { name: "Sweden", code: "SE", alpha3: "SWE", continent: "Europe", region: "Europe", capital: "Stockholm", populationTier: "medium" },
+  { name: "Norway", code: "NO", alpha3: "NOR", continent: "Europe", region: "Europe", capital: "Oslo", populationTier: "small" },
+  { name: "Denmark", code: "DK", alpha3: "DNK", continent: "Europe", region: "Europe", capital: "Copenhagen", populationTier: "small" },
+  { name: "Finland", code: "FI", alpha3: "FIN", continent: "Europe", region: "Europe", capital: "Helsinki", populationTier: "small" },
+  { name: "Poland", code: "PL", alpha3: "POL", continent: "Europe", region: "Europe", capital: "Warsaw", populationTier: "medium" },
+  { name: "Portugal", code: "PT", alpha3: "PRT", continent: "Europe", region: "Europe", capital: "Lisbon", populationTier: "medium" },
+  { name: "Greece", code: "GR", alpha3: "GRC", continent: "Europe", region: "Europe", capital: "Athens", populationTier: "medium" },
+  { name: "Turkey", code: "TR", alpha3: "TUR", continent: "Asia", region: "Middle East", capital: "Ankara", populationTier: "large" },
+  { name: "Egypt", code: "EG", alpha3: "EGY", continent: "Africa", region: "Middle East", capital: "Cairo", populationTier: "large" },
+  { name: "South Africa", code: "ZA", alpha3: "ZAF", continent: "Africa", region: "Africa", capital: "Pretoria", populationTier: "large" },
+  { name: "Nigeria", code: "NG", alpha3: "NGA", continent: "Africa", region: "Africa", capital: "Abuja", populationTier: "huge" },
+  { name: "Kenya", code: "KE", alpha3: "KEN", continent: "Africa", region: "Africa", capital: "Nairobi", populationTier: "large" },
+  { name: "Morocco", code: "MA", alpha3: "MAR", continent: "Africa", region: "Africa", capital: "Rabat", populationTier: "medium" },
+  { name: "Argentina", code: "AR", alpha3: "ARG", continent: "South America", region: "Americas", capital: "Buenos Aires", populationTier: "medium" },
+  { name: "Chile", code: "CL", alpha3: "CHL", continent: "South America", region: "Americas", capital: "Santiago", populationTier: "medium" },
+  { name: "Colombia", code: "CO", alpha3: "COL", continent: "South America", region: "Americas", capital: "Bogotá", populationTier: "large" },
+  { name: "Peru", code: "PE", alpha3: "PER", continent: "South America", region: "Americas", capital: "Lima", populationTier: "medium" },
+  { name: "Venezuela", code: "VE", alpha3: "VEN", continent: "South America", region: "Americas", capital: "Caracas", populationTier: "medium" },
+  { name: "Thailand", code: "TH", alpha3: "THA", continent: "Asia", region: "Asia", capital: "Bangkok", populationTier: "large" },
+  { name: "Vietnam", code: "VN", alpha3: "VNM", continent: "Asia", region: "Asia", capital: "Hanoi", populationTier: "large" },
+  { name: "Singapore", code: "SG", alpha3: "SGP", continent: "Asia", region: "Asia", capital: "Singapore", populationTier: "small" },
+  { name: "Malaysia", code: "MY", alpha3: "MYS", continent: "Asia", region: "Asia", capital: "Kuala Lumpur", populationTier: "medium" },
+  { name: "Indonesia", code: "ID", alpha3: "IDN", continent: "Asia", region: "Asia", capital: "Jakarta", populationTier: "huge" },
+  { name: "Philippines", code: "PH", alpha3: "PHL", continent: "Asia", region: "Asia", capital: "Manila", populationTier: "large" },
+  { name: "New Zealand", code: "NZ", alpha3: "NZL", continent: "Oceania", region: "Oceania", capital: "Wellington", populationTier: "small" },
+  { name: "Ireland", code: "IE", alpha3: "IRL", continent: "Europe", region: "Europe", capital: "Dublin", populationTier: "small" },
+  { name: "Iceland", code: "IS", alpha3: "ISL", continent: "Europe", region: "Europe", capital: "Reykjavík", populationTier: "micro" },
+  { name: "Czech Republic", code: "CZ", alpha3: "CZE", continent: "Europe", region: "Europe", capital: "Prague", populationTier: "medium" },
+  { name: "Hungary", code: "HU", alpha3: "HUN", continent: "Europe", region: "Europe", capital: "Budapest", populationTier: "small" },
+  { name: "Romania", code: "RO", alpha3: "ROU", continent: "Europe", region: "Europe", capital: "Bucharest", populationTier: "medium" },
+  { name: "Bulgaria", code: "BG", alpha3: "BGR", continent: "Europe", region: "Europe", capital: "Sofia", populationTier: "small" },
+  { name: "Croatia", code: "HR", alpha3: "HRV", continent: "Europe", region: "Europe", capital: "Zagreb", populationTier: "small" },
+  { name: "Slovenia", code: "SI", alpha3: "SVN", continent: "Europe", region: "Europe", capital: "Ljubljana", populationTier: "small" },
+  { name: "Slovakia", code: "SK", alpha3: "SVK", continent: "Europe", region: "Europe", capital: "Bratislava", populationTier: "small" },
+  { name: "Estonia", code: "EE", alpha3: "EST", continent: "Europe", region: "Europe", capital: "Tallinn", populationTier: "small" },
+  { name: "Latvia", code: "LV", alpha3: "LVA", continent: "Europe", region: "Europe", capital: "Riga", populationTier: "small" },
+  { name: "Lithuania", code: "LT", alpha3: "LTU", continent: "Europe", region: "Europe", capital: "Vilnius", populationTier: "small" },
+  { name: "Ukraine", code: "UA", alpha3: "UKR", continent: "Europe", region: "Europe", capital: "Kyiv", populationTier: "medium" },
+  { name: "Belarus", code: "BY", alpha3: "BLR", continent: "Europe", region: "Europe", capital: "Minsk", populationTier: "small" },
+  { name: "Moldova", code: "MD", alpha3: "MDA", continent: "Europe", region: "Europe", capital: "Chișinău", populationTier: "small" },
+  { name: "Serbia", code: "RS", alpha3: "SRB", continent: "Europe", region: "Europe", capital: "Belgrade", populationTier: "small" },
+  { name: "Bosnia and Herzegovina", code: "BA", alpha3: "BIH", continent: "Europe", region: "Europe", capital: "Sarajevo", populationTier: "small" },
+  { name: "Montenegro", code: "ME", alpha3: "MNE", continent: "Europe", region: "Europe", capital: "Podgorica", populationTier: "micro" },
+  { name: "North Macedonia", code: "MK", alpha3: "MKD", continent: "Europe", region: "Europe", capital: "Skopje", populationTier: "small" },
+  { name: "Albania", code: "AL", alpha3: "ALB", continent: "Europe", region: "Europe", capital: "Tirana", populationTier: "small" },
+  { name: "Cyprus", code: "CY", alpha3: "CYP", continent: "Asia", region: "Middle East", capital: "Nicosia", populationTier: "small" },
+  { name: "Malta", code: "MT", alpha3: "MLT", continent: "Europe", region: "Europe", capital: "Valletta", populationTier: "micro" },
+  { name: "Luxembourg", code: "LU", alpha3: "LUX", continent: "Europe", region: "Europe", capital: "Luxembourg", populationTier: "micro" },
+  { name: "Monaco", code: "MC", alpha3: "MCO", continent: "Europe", region: "Europe", capital: "Monaco", populationTier: "micro" },
+  { name: "Liechtenstein", code: "LI", alpha3: "LIE", continent: "Europe", region: "Europe", capital: "Vaduz", populationTier: "micro" },
+  { name: "San Marino", code: "SM", alpha3: "SMR", continent: "Europe", region: "Europe", capital: "San Marino", populationTier: "micro" },
+  { name: "Vatican City", code: "VA", alpha3: "VAT", continent: "Europe", region: "Europe", capital: "Vatican City", populationTier: "micro" },
+  { name: "Andorra", code: "AD", alpha3: "AND", continent: "Europe", region: "Europe", capital: "Andorra la Vella", populationTier: "micro" },
+  { name: "Israel", code: "IL", alpha3: "ISR", continent: "Asia", region: "Middle East", capital: "Jerusalem", populationTier: "small" },
+  { name: "Jordan", code: "JO", alpha3: "JOR", continent: "Asia", region: "Middle East", capital: "Amman", populationTier: "medium" },
+  { name: "Lebanon", code: "LB", alpha3: "LBN", continent: "Asia", region: "Middle East", capital: "Beirut", populationTier: "small" },
+  { name: "Syria", code: "SY", alpha3: "SYR", continent: "Asia", region: "Middle East", capital: "Damascus", populationTier: "medium" },
+  { name: "Iraq", code: "IQ", alpha3: "IRQ", continent: "Asia", region: "Middle East", capital: "Baghdad", populationTier: "medium" },
+  { name: "Iran", code: "IR", alpha3: "IRN", continent: "Asia", region: "Middle East", capital: "Tehran", populationTier: "large" },
+  { name: "Saudi Arabia", code: "SA", alpha3: "SAU", continent: "Asia", region: "Middle East", capital: "Riyadh", populationTier: "medium" },
+  { name: "United Arab Emirates", code: "AE", alpha3: "ARE", continent: "Asia", region: "Middle East", capital: "Abu Dhabi", populationTier: "small" },
+  { name: "Qatar", code: "QA", alpha3: "QAT", continent: "Asia", region: "Middle East", capital: "Doha", populationTier: "small" },
+  { name: "Kuwait", code: "KW", alpha3: "KWT", continent: "Asia", region: "Middle East", capital: "Kuwait City", populationTier: "small" },
+  { name: "Bahrain", code: "BH", alpha3: "BHR", continent: "Asia", region: "Middle East", capital: "Manama", populationTier: "small" },
+  { name: "Oman", code: "OM", alpha3: "OMN", continent: "Asia", region: "Middle East", capital: "Muscat", populationTier: "small" },
+  { name: "Yemen", code: "YE", alpha3: "YEM", continent: "Asia", region: "Middle East", capital: "Sana'a", populationTier: "medium" },
+  { name: "Afghanistan", code: "AF", alpha3: "AFG", continent: "Asia", region: "Asia", capital: "Kabul", populationTier: "medium" },
+  { name: "Pakistan", code: "PK", alpha3: "PAK", continent: "Asia", region: "Asia", capital: "Islamabad", populationTier: "huge" },
+  { name: "Bangladesh", code: "BD", alpha3: "BGD", continent: "Asia", region: "Asia", capital: "Dhaka", populationTier: "large" },
+  { name: "Sri Lanka", code: "LK", alpha3: "LKA", continent: "Asia", region: "Asia", capital: "Sri Jayawardenepura Kotte", populationTier: "medium" },
+  { name: "Nepal", code: "NP", alpha3: "NPL", continent: "Asia", region: "Asia", capital: "Kathmandu", populationTier: "medium" },
+  { name: "Bhutan", code: "BT", alpha3: "BTN", continent: "Asia", region: "Asia", capital: "Thimphu", populationTier: "micro" },
+  { name: "Maldives", code: "MV", alpha3: "MDV", continent: "Asia", region: "Asia", capital: "Malé", populationTier: "micro" },
+  { name: "Myanmar", code: "MM", alpha3: "MMR", continent: "Asia", region: "Asia", capital: "Naypyidaw", populationTier: "large" },
+  { name: "Cambodia", code: "KH", alpha3: "KHM", continent: "Asia", region: "Asia", capital: "Phnom Penh", populationTier: "medium" },
+  { name: "Laos", code: "LA", alpha3: "LAO", continent: "Asia", region: "Asia", capital: "Vientiane", populationTier: "small" },
+  { name: "Mongolia", code: "MN", alpha3: "MNG", continent: "Asia", region: "Asia", capital: "Ulaanbaatar", populationTier: "small" },
+  { name: "North Korea", code: "KP", alpha3: "PRK", continent: "Asia", region: "Asia", capital: "Pyongyang", populationTier: "medium" },
+  { name: "Kazakhstan", code: "KZ", alpha3: "KAZ", continent: "Asia", region: "Asia", capital: "Astana", populationTier: "medium" },
+  { name: "Uzbekistan", code: "UZ", alpha3: "UZB", continent: "Asia", region: "Asia", capital: "Tashkent", populationTier: "medium" },
+  { name: "Turkmenistan", code: "TM", alpha3: "TKM", continent: "Asia", region: "Asia", capital: "Ashgabat", populationTier: "small" },
+  { name: "Kyrgyzstan", code: "KG", alpha3: "KGZ", continent: "Asia", region: "Asia", capital: "Bishkek", populationTier: "small" },
+  { name: "Tajikistan", code: "TJ", alpha3: "TJK", continent: "Asia", region: "Asia", capital: "Dushanbe", populationTier: "medium" },
+  { name: "Azerbaijan", code: "AZ", alpha3: "AZE", continent: "Asia", region: "Asia", capital: "Baku", populationTier: "medium" },
+  { name: "Armenia", code: "AM", alpha3: "ARM", continent: "Asia", region: "Asia", capital: "Yerevan", populationTier: "small" },
+  { name: "Georgia", code: "GE", alpha3: "GEO", continent: "Asia", region: "Asia", capital: "Tbilisi", populationTier: "small" },
+  { name: "Algeria", code: "DZ", alpha3: "DZA", continent: "Africa", region: "Africa", capital: "Algiers", populationTier: "medium" },
+  { name: "Tunisia", code: "TN", alpha3: "TUN", continent: "Africa", region: "Africa", capital: "Tunis", populationTier: "medium" },
+  { name: "Libya", code: "LY", alpha3: "LBY", continent: "Africa", region: "Africa", capital: "Tripoli", populationTier: "small" },
+  { name: "Sudan", code: "SD", alpha3: "SDN", continent: "Africa", region: "Africa", capital: "Khartoum", populationTier: "medium" },
+  { name: "Ethiopia", code: "ET", alpha3: "ETH", continent: "Africa", region: "Africa", capital: "Addis Ababa", populationTier: "large" },
+  { name: "Somalia", code: "SO", alpha3: "SOM", continent: "Africa", region: "Africa", capital: "Mogadishu", populationTier: "medium" },
+  { name: "Ghana", code: "GH", alpha3: "GHA", continent: "Africa", region: "Africa", capital: "Accra", populationTier: "medium" },
+  { name: "Ivory Coast", code: "CI", alpha3: "CIV", continent: "Africa", region: "Africa", capital: "Yamoussoukro", populationTier: "medium" },
+  { name: "Senegal", code: "SN", alpha3: "SEN", continent: "Africa", region: "Africa", capital: "Dakar", populationTier: "medium" },
+  { name: "Mali", code: "ML", alpha3: "MLI", continent: "Africa", region: "Africa", capital: "Bamako", populationTier: "medium" },
+  { name: "Burkina Faso", code: "BF", alpha3: "BFA", continent: "Africa", region: "Africa", capital: "Ouagadougou", populationTier: "medium" },
+  { name: "Niger", code: "NE", alpha3: "NER", continent: "Africa", region: "Africa", capital: "Niamey", populationTier: "medium" },
+  { name: "Chad", code: "TD", alpha3: "TCD", continent: "Africa", region: "Africa", capital: "N'Djamena", populationTier: "medium" },
+  { name: "Cameroon", code: "CM", alpha3: "CMR", continent: "Africa", region: "Africa", capital: "Yaoundé", populationTier: "medium" },
+  { name: "Central African Republic", code: "CF", alpha3: "CAF", continent: "Africa", region: "Africa", capital: "Bangui", populationTier: "small" },
+  { name: "Democratic Republic of the Congo", code: "CD", alpha3: "COD", continent: "Africa", region: "Africa", capital: "Kinshasa", populationTier: "large" },
+  { name: "Republic of the Congo", code: "CG", alpha3: "COG", continent: "Africa", region: "Africa", capital: "Brazzaville", populationTier: "small" },
+  { name: "Gabon", code: "GA", alpha3: "GAB", continent: "Africa", region: "Africa", capital: "Libreville", populationTier: "small" },
+  { name: "Equatorial Guinea", code: "GQ", alpha3: "GNQ", continent: "Africa", region: "Africa", capital: "Malabo", populationTier: "small" },
+  { name: "Angola", code: "AO", alpha3: "AGO", continent: "Africa", region: "Africa", capital: "Luanda", populationTier: "medium" },
+  { name: "Zambia", code: "ZM", alpha3: "ZMB", continent: "Africa", region: "Africa", capital: "Lusaka", populationTier: "medium" },
+  { name: "Zimbabwe", code: "ZW", alpha3: "ZWE", continent: "Africa", region: "Africa", capital: "Harare", populationTier: "medium" },
+  { name: "Botswana", code: "BW", alpha3: "BWA", continent: "Africa", region: "Africa", capital: "Gaborone", populationTier: "small" },
+  { name: "Namibia", code: "NA", alpha3: "NAM", continent: "Africa", region: "Africa", capital: "Windhoek", populationTier: "small" },
+  { name: "Lesotho", code: "LS", alpha3: "LSO", continent: "Africa", region: "Africa", capital: "Maseru", populationTier: "small" },
+  { name: "Eswatini", code: "SZ", alpha3: "SWZ", continent: "Africa", region: "Africa", capital: "Mbabane", populationTier: "small" },
+  { name: "Madagascar", code: "MG", alpha3: "MDG", continent: "Africa", region: "Africa", capital: "Antananarivo", populationTier: "medium" },
+  { name: "Mauritius", code: "MU", alpha3: "MUS", continent: "Africa", region: "Africa", capital: "Port Louis", populationTier: "small" },
+  { name: "Seychelles", code: "SC", alpha3: "SYC", continent: "Africa", region: "Africa", capital: "Victoria", populationTier: "micro" },
+  { name: "Comoros", code: "KM", alpha3: "COM", continent: "Africa", region: "Africa", capital: "Moroni", populationTier: "micro" },
+  { name: "Uruguay", code: "UY", alpha3: "URY", continent: "South America", region: "Americas", capital: "Montevideo", populationTier: "small" },
+  { name: "Paraguay", code: "PY", alpha3: "PRY", continent: "South America", region: "Americas", capital: "Asunción", populationTier: "small" },
+  { name: "Bolivia", code: "BO", alpha3: "BOL", continent: "South America", region: "Americas", capital: "Sucre", populationTier: "medium" },
+  { name: "Ecuador", code: "EC", alpha3: "ECU", continent: "South America", region: "Americas", capital: "Quito", populationTier: "medium" },
+  { name: "Guyana", code: "GY", alpha3: "GUY", continent: "South America", region: "Americas", capital: "Georgetown", populationTier: "micro" },
+  { name: "Suriname", code: "SR", alpha3: "SUR", continent: "South America", region: "Americas", capital: "Paramaribo", populationTier: "micro" },
+  { name: "Costa Rica", code: "CR", alpha3: "CRI", continent: "North America", region: "Americas", capital: "San José", populationTier: "small" },
+  { name: "Panama", code: "PA", alpha3: "PAN", continent: "North America", region: "Americas", capital: "Panama City", populationTier: "small" },
+  { name: "Nicaragua", code: "NI", alpha3: "NIC", continent: "North America", region: "Americas", capital: "Managua", populationTier: "small" },
+  { name: "Honduras", code: "HN", alpha3: "HND", continent: "North America", region: "Americas", capital: "Tegucigalpa", populationTier: "medium" },
+  { name: "El Salvador", code: "SV", alpha3: "SLV", continent: "North America", region: "Americas", capital: "San Salvador", populationTier: "small" },
+  { name: "Guatemala", code: "GT", alpha3: "GTM", continent: "North America", region: "Americas", capital: "Guatemala City", populationTier: "medium" },
+  { name: "Belize", code: "BZ", alpha3: "BLZ", continent: "North America", region: "Americas", capital: "Belmopan", populationTier: "micro" },
+  { name: "Jamaica", code: "JM", alpha3: "JAM", continent: "North America", region: "Americas", capital: "Kingston", populationTier: "small" },
+  { name: "Cuba", code: "CU", alpha3: "CUB", continent: "North America", region: "Americas", capital: "Havana", populationTier: "medium" },
+  { name: "Haiti", code: "HT", alpha3: "HTI", continent: "North America", region: "Americas", capital: "Port-au-Prince", populationTier: "medium" },
+  { name: "Dominican Republic", code: "DO", alpha3: "DOM", continent: "North America", region: "Americas", capital: "Santo Domingo", populationTier: "medium" },
+  { name: "Trinidad and Tobago", code: "TT", alpha3: "TTO", continent: "North America", region: "Americas", capital: "Port of Spain", populationTier: "small" },
+  { name: "Barbados", code: "BB", alpha3: "BRB", continent: "North America", region: "Americas", capital: "Bridgetown", populationTier: "micro" },
+  { name: "Saint Lucia", code: "LC", alpha3: "LCA", continent: "North America", region: "Americas", capital: "Castries", populationTier: "micro" },
+  { name: "Grenada", code: "GD", alpha3: "GRD", continent: "North America", region: "Americas", capital: "St. George's", populationTier: "micro" },
+  { name: "Saint Vincent and the Grenadines", code: "VC", alpha3: "VCT", continent: "North America", region: "Americas", capital: "Kingstown", populationTier: "micro" },
+  { name: "Antigua and Barbuda", code: "AG", alpha3: "ATG", continent: "North America", region: "Americas", capital: "St. John's", populationTier: "micro" },
+  { name: "Dominica", code: "DM", alpha3: "DMA", continent: "North America", region: "Americas", capital: "Roseau", populationTier: "micro" },
+  { name: "Saint Kitts and Nevis", code: "KN", alpha3: "KNA", continent: "North America", region: "Americas", capital: "Basseterre", populationTier: "micro" },
+  { name: "Bahamas", code: "BS", alpha3: "BHS", continent: "North America", region: "Americas", capital: "Nassau", populationTier: "micro" },
+  { name: "Fiji", code: "FJ", alpha3: "FJI", continent: "Oceania", region: "Oceania", capital: "Suva", populationTier: "micro" },
+  { name: "Papua New Guinea", code: "PG", alpha3: "PNG", continent: "Oceania", region: "Oceania", capital: "Port Moresby", populationTier: "medium" },
+  { name: "Solomon Islands", code: "SB", alpha3: "SLB", continent: "Oceania", region: "Oceania", capital: "Honiara", populationTier: "micro" },
+  { name: "Vanuatu", code: "VU", alpha3: "VUT", continent: "Oceania", region: "Oceania", capital: "Port Vila", populationTier: "micro" },
+  { name: "Samoa", code: "WS", alpha3: "WSM", continent: "Oceania", region: "Oceania", capital: "Apia", populationTier: "micro" },
+  { name: "Tonga", code: "TO", alpha3: "TON", continent: "Oceania", region: "Oceania", capital: "Nukuʻalofa", populationTier: "micro" },
+  { name: "Palau", code: "PW", alpha3: "PLW", continent: "Oceania", region: "Oceania", capital: "Ngerulmud", populationTier: "micro" },
+  { name: "Micronesia", code: "FM", alpha3: "FSM", continent: "Oceania", region: "Oceania", capital: "Palikir", populationTier: "micro" },
+  { name: "Marshall Islands", code: "MH", alpha3: "MHL", continent: "Oceania", region: "Oceania", capital: "Majuro", populationTier: "micro" },
+  { name: "Kiribati", code: "KI", alpha3: "KIR", continent: "Oceania", region: "Oceania", capital: "Tarawa", populationTier: "micro" },
+  { name: "Nauru", code: "NR", alpha3: "NRU", continent: "Oceania", region: "Oceania", capital: "Yaren", populationTier: "micro" },
+  { name: "Tuvalu", code: "TV", alpha3: "TUV", continent: "Oceania", region: "Oceania", capital: "Funafuti", populationTier: "micro" },
+  { name: "South Sudan", code: "SS", alpha3: "SSD", continent: "Africa", region: "Africa", capital: "Juba", populationTier: "medium" },
+  { name: "Eritrea", code: "ER", alpha3: "ERI", continent: "Africa", region: "Africa", capital: "Asmara", populationTier: "small" },
+  { name: "Djibouti", code: "DJ", alpha3: "DJI", continent: "Africa", region: "Africa", capital: "Djibouti", populationTier: "small" },
+  { name: "Rwanda", code: "RW", alpha3: "RWA", continent: "Africa", region: "Africa", capital: "Kigali", populationTier: "medium" },
+  { name: "Burundi", code: "BI", alpha3: "BDI", continent: "Africa", region: "Africa", capital: "Gitega", populationTier: "medium" },
+  { name: "Uganda", code: "UG", alpha3: "UGA", continent: "Africa", region: "Africa", capital: "Kampala", populationTier: "medium" },
+  { name: "Tanzania", code: "TZ", alpha3: "TZA", continent: "Africa", region: "Africa", capital: "Dodoma", populationTier: "large" },
+  { name: "Malawi", code: "MW", alpha3: "MWI", continent: "Africa", region: "Africa", capital: "Lilongwe", populationTier: "medium" },
+  { name: "Mozambique", code: "MZ", alpha3: "MOZ", continent: "Africa", region: "Africa", capital: "Maputo", populationTier: "medium" },
+  { name: "Guinea", code: "GN", alpha3: "GIN", continent: "Africa", region: "Africa", capital: "Conakry", populationTier: "medium" },
+  { name: "Guinea-Bissau", code: "GW", alpha3: "GNB", continent: "Africa", region: "Africa", capital: "Bissau", populationTier: "small" },
+  { name: "Sierra Leone", code: "SL", alpha3: "SLE", continent: "Africa", region: "Africa", capital: "Freetown", populationTier: "small" },
+  { name: "Liberia", code: "LR", alpha3: "LBR", continent: "Africa", region: "Africa", capital: "Monrovia", populationTier: "small" },
+  { name: "Gambia", code: "GM", alpha3: "GMB", continent: "Africa", region: "Africa", capital: "Banjul", populationTier: "small" },
+  { name: "Mauritania", code: "MR", alpha3: "MRT", continent: "Africa", region: "Africa", capital: "Nouakchott", populationTier: "small" },
+  { name: "Cape Verde", code: "CV", alpha3: "CPV", continent: "Africa", region: "Africa", capital: "Praia", populationTier: "micro" },
+  { name: "São Tomé and Príncipe", code: "ST", alpha3: "STP", continent: "Africa", region: "Africa", capital: "São Tomé", populationTier: "micro" },
+  { name: "Togo", code: "TG", alpha3: "TGO", continent: "Africa", region: "Africa", capital: "Lomé", populationTier: "small" },
+  { name: "Benin", code: "BJ", alpha3: "BEN", continent: "Africa", region: "Africa", capital: "Porto-Novo", populationTier: "medium" },
+  { name: "Timor-Leste", code: "TL", alpha3: "TLS", continent: "Asia", region: "Asia", capital: "Dili", populationTier: "small" },
+  { name: "Brunei", code: "BN", alpha3: "BRN", continent: "Asia", region: "Asia", capital: "Bandar Seri Begawan", populationTier: "micro" },
+  { name: "Taiwan", code: "TW", alpha3: "TWN", continent: "Asia", region: "Asia", capital: "Taipei", populationTier: "medium" },
+  { name: "Palestine", code: "PS", alpha3: "PSE", continent: "Asia", region: "Middle East", capital: "Ramallah", populationTier: "small" },
+  { name: "Kosovo", code: "XK", alpha3: "XKX", continent: "Europe", region: "Europe", capital: "Pristina", populationTier: "small" },
 ];
 
 export const additionalCountries: Country[] = [
-  { name: "Hong Kong", code: "HK", continent: "Asia", region: "Asia" },
-  { name: "Macau", code: "MO", continent: "Asia", region: "Asia" },
-  { name: "Greenland", code: "GL", continent: "North America", region: "Americas" },
-  { name: "Faroe Islands", code: "FO", continent: "Europe", region: "Europe" },
-  { name: "Åland Islands", code: "AX", continent: "Europe", region: "Europe" },
-  { name: "Gibraltar", code: "GI", continent: "Europe", region: "Europe" },
-  { name: "Bermuda", code: "BM", continent: "North America", region: "Americas" },
-  { name: "Cayman Islands", code: "KY", continent: "North America", region: "Americas" },
-  { name: "British Virgin Islands", code: "VG", continent: "North America", region: "Americas" },
-  { name: "U.S. Virgin Islands", code: "VI", continent: "North America", region: "Americas" },
-  { name: "Puerto Rico", code: "PR", continent: "North America", region: "Americas" },
-  { name: "Guam", code: "GU", continent: "Oceania", region: "Oceania" },
-  { name: "Northern Mariana Islands", code: "MP", continent: "Oceania", region: "Oceania" },
-  { name: "American Samoa", code: "AS", continent: "Oceania", region: "Oceania" },
-  { name: "Cook Islands", code: "CK", continent: "Oceania", region: "Oceania" },
-  { name: "Niue", code: "NU", continent: "Oceania", region: "Oceania" },
-  { name: "Tokelau", code: "TK", continent: "Oceania", region: "Oceania" },
-  { name: "Wallis and Futuna", code: "WF", continent: "Oceania", region: "Oceania" },
-  { name: "French Polynesia", code: "PF", continent: "Oceania", region: "Oceania" },
-  { name: "New Caledonia", code: "NC", continent: "Oceania", region: "Oceania" },
-  { name: "Réunion", code: "RE", continent: "Africa", region: "Africa" },
-  { name: "Mayotte", code: "YT", continent: "Africa", region: "Africa" },
-  { name: "Martinique", code: "MQ", continent: "North America", region: "Americas" },
-  { name: "Guadeloupe", code: "GP", continent: "North America", region: "Americas" },
-  { name: "French Guiana", code: "GF", continent: "South America", region: "Americas" },
-  { name: "Saint Pierre and Miquelon", code: "PM", continent: "North America", region: "Americas" },
-  { name: "Saint Barthélemy", code: "BL", continent: "North America", region: "Americas" },
-  { name: "Saint Martin", code: "MF", continent: "North America", region: "Americas" },
-  { name: "Sint Maarten", code: "SX", continent: "North America", region: "Americas" },
-  { name: "Curaçao", code: "CW", continent: "North America", region: "Americas" },
-  { name: "Aruba", code: "AW", continent: "North America", region: "Americas" },
-  { name: "Bonaire", code: "BQ", continent: "North America", region: "Americas" },
-  { name: "Montserrat", code: "MS", continent: "North America", region: "Americas" },
-  { name: "Anguilla", code: "AI", continent: "North America", region: "Americas" },
-  { name: "Turks and Caicos", code: "TC", continent: "North America", region: "Americas" },
-  { name: "Falkland Islands", code: "FK", continent: "South America", region: "Americas" },
-  { name: "South Georgia and South Sandwich Islands", code: "GS", continent: "Antarctica", region: "Antarctica" },
-  { name: "Bouvet Island", code: "BV", continent: "Antarctica", region: "Antarctica" },
-  { name: "Svalbard and Jan Mayen", code: "SJ", continent: "Europe", region: "Europe" },
-  { name: "Heard Island and McDonald Islands", code: "HM", continent: "Antarctica", region: "Antarctica" },
-  { name: "Christmas Island", code: "CX", continent: "Asia", region: "Asia" },
-  { name: "Cocos Islands", code: "CC", continent: "Asia", region: "Asia" },
-  { name: "Norfolk Island", code: "NF", continent: "Oceania", region: "Oceania" },
-  { name: "Pitcairn Islands", code: "PN", continent: "Oceania", region: "Oceania" },
-  { name: "Antarctica", code: "AQ", continent: "Antarctica", region: "Antarctica" },
+  { name: "Hong Kong", code: "HK", alpha3: "HKG", continent: "Asia", region: "Asia", capital: "Hong Kong", populationTier: "small" },
+  { name: "Macau", code: "MO", alpha3: "MAC", continent: "Asia", region: "Asia", capital: "Macau", populationTier: "micro" },
+  { name: "Greenland", code: "GL", alpha3: "GRL", continent: "North America", region: "Americas", capital: "Nuuk", populationTier: "micro" },
+  { name: "Faroe Islands", code: "FO", alpha3: "FRO", continent: "Europe", region: "Europe", capital: "Tórshavn", populationTier: "micro" },
+  { name: "Åland Islands", code: "AX", alpha3: "ALA", continent: "Europe", region: "Europe", capital: "Mariehamn", populationTier: "micro" },
+  { name: "Gibraltar", code: "GI", alpha3: "GIB", continent: "Europe", region: "Europe", capital: "Gibraltar", populationTier: "micro" },
+  { name: "Bermuda", code: "BM", alpha3: "BMU", continent: "North America", region: "Americas", capital: "Hamilton", populationTier: "micro" },
+  { name: "Cayman Islands", code: "KY", alpha3: "CYM", continent: "North America", region: "Americas", capital: "George Town", populationTier: "micro" },
+  { name: "British Virgin Islands", code: "VG", alpha3: "VGB", continent: "North America", region: "Americas", capital: "Road Town", populationTier: "micro" },
+  { name: "U.S. Virgin Islands", code: "VI", alpha3: "VIR", continent: "North America", region: "Americas", capital: "Charlotte Amalie", populationTier: "micro" },
+  { name: "Puerto Rico", code: "PR", alpha3: "PRI", continent: "North America", region: "Americas", capital: "San Juan", populationTier: "small" },
+  { name: "Guam", code: "GU", alpha3: "GUM", continent: "Oceania", region: "Oceania", capital: "Hagåtña", populationTier: "micro" },
+  { name: "Northern Mariana Islands", code: "MP", alpha3: "MNP", continent: "Oceania", region: "Oceania", capital: "Saipan", populationTier: "micro" },
+  { name: "American Samoa", code: "AS", alpha3: "ASM", continent: "Oceania", region: "Oceania", capital: "Pago Pago", populationTier: "micro" },
+  { name: "Cook Islands", code: "CK", alpha3: "COK", continent: "Oceania", region: "Oceania", capital: "Avarua", populationTier: "micro" },
+  { name: "Niue", code: "NU", alpha3: "NIU", continent: "Oceania", region: "Oceania", capital: "Alofi", populationTier: "micro" },
+  { name: "Tokelau", code: "TK", alpha3: "TKL", continent: "Oceania", region: "Oceania", capital: null, populationTier: "micro" },
+  { name: "Wallis and Futuna", code: "WF", alpha3: "WLF", continent: "Oceania", region: "Oceania", capital: "Mata-Utu", populationTier: "micro" },
+  { name: "French Polynesia", code: "PF", alpha3: "PYF", continent: "Oceania", region: "Oceania", capital: "Papeete", populationTier: "micro" },
+  { name: "New Caledonia", code: "NC", alpha3: "NCL", continent: "Oceania", region: "Oceania", capital: "Nouméa", populationTier: "micro" },
+  { name: "Réunion", code: "RE", alpha3: "REU", continent: "Africa", region: "Africa", capital: "Saint-Denis", populationTier: "micro" },
+  { name: "Mayotte", code: "YT", alpha3: "MYT", continent: "Africa", region: "Africa", capital: "Mamoudzou", populationTier: "micro" },
+  { name: "Martinique", code: "MQ", alpha3: "MTQ", continent: "North America", region: "Americas", capital: "Fort-de-France", populationTier: "micro" },
+  { name: "Guadeloupe", code: "GP", alpha3: "GLP", continent: "North America", region: "Americas", capital: "Basse-Terre", populationTier: "micro" },
+  { name: "French Guiana", code: "GF", alpha3: "GUF", continent: "South America", region: "Americas", capital: "Cayenne", populationTier: "micro" },
+  { name: "Saint Pierre and Miquelon", code: "PM", alpha3: "SPM", continent: "North America", region: "Americas", capital: "Saint-Pierre", populationTier: "micro" },
+  { name: "Saint Barthélemy", code: "BL", alpha3: "BLM", continent: "North America", region: "Americas", capital: "Gustavia", populationTier: "micro" },
+  { name: "Saint Martin", code: "MF", alpha3: "MAF", continent: "North America", region: "Americas", capital: "Marigot", populationTier: "micro" },
+  { name: "Sint Maarten", code: "SX", alpha3: "SXM", continent: "North America", region: "Americas", capital: "Philipsburg", populationTier: "micro" },
+  { name: "Curaçao", code: "CW", alpha3: "CUW", continent: "North America", region: "Americas", capital: "Willemstad", populationTier: "micro" },
+  { name: "Aruba", code: "AW", alpha3: "ABW", continent: "North America", region: "Americas", capital: "Oranjestad", populationTier: "micro" },
+  { name: "Bonaire", code: "BQ", alpha3: "BES", continent: "North America", region: "Americas", capital: "Kralendijk", populationTier: "micro" },
+  { name: "Montserrat", code: "MS", alpha3: "MSR", continent: "North America", region: "Americas", capital: "Brades", populationTier: "micro" },
+  { name: "Anguilla", code: "AI", alpha3: "AIA", continent: "North America", region: "Americas", capital: "The Valley", populationTier: "micro" },
+  { name: "Turks and Caicos", code: "TC", alpha3: "TCA", continent: "North America", region: "Americas", capital: "Cockburn Town", populationTier: "micro" },
+  { name: "Falkland Islands", code: "FK", alpha3: "FLK", continent: "South America", region: "Americas", capital: "Stanley", populationTier: "micro" },
+  { name: "South Georgia and South Sandwich Islands", code: "GS", alpha3: "SGS", continent: "Antarctica", region: "Antarctica", capital: "King Edward Point", populationTier: "micro" },
+  { name: "Bouvet Island", code: "BV", alpha3: "BVT", continent: "Antarctica", region: "Antarctica", capital: null, populationTier: "micro" },
+  { name: "Svalbard and Jan Mayen", code: "SJ", alpha3: "SJM", continent: "Europe", region: "Europe", capital: "Longyearbyen", populationTier: "micro" },
+  { name: "Heard Island and McDonald Islands", code: "HM", alpha3: "HMD", continent: "Antarctica", region: "Antarctica", capital: null, populationTier: "micro" },
+  { name: "Christmas Island", code: "CX", alpha3: "CXR", continent: "Asia", region: "Asia", capital: "Flying Fish Cove", populationTier: "micro" },
+  { name: "Cocos Islands", code: "CC", alpha3: "CCK", continent: "Asia", region: "Asia", capital: "West Island", populationTier: "micro" },
+  { name: "Norfolk Island", code: "NF", alpha3: "NFK", continent: "Oceania", region: "Oceania", capital: "Kingston", populationTier: "micro" },
+  { name: "Pitcairn Islands", code: "PN", alpha3: "PCN", continent: "Oceania", region: "Oceania", capital: "Adamstown", populationTier: "micro" },
+  { name: "Antarctica", code: "AQ", alpha3: "ATA", continent: "Antarctica", region: "Antarctica", capital: null, populationTier: "micro" },
 
   // UK constituent countries
-  { name: "England", code: "GB-ENG", continent: "Europe", region: "Europe" },
-  { name: "Scotland", code: "GB-SCT", continent: "Europe", region: "Europe" },
-  { name: "Wales", code: "GB-WLS", continent: "Europe", region: "Europe" },
+  { name: "England", code: "GB-ENG", alpha3: null, continent: "Europe", region: "Europe", capital: "London", populationTier: "large" },
+  { name: "Scotland", code: "GB-SCT", alpha3: null, continent: "Europe", region: "Europe", capital: "Edinburgh", populationTier: "small" },
+  { name: "Wales", code: "GB-WLS", alpha3: null, continent: "Europe", region: "Europe", capital: "Cardiff", populationTier: "small" },
 
   // Crown dependencies
-  { name: "Jersey", code: "JE", continent: "Europe", region: "Europe" },
-  { name: "Guernsey", code: "GG", continent: "Europe", region: "Europe" },
-  { name: "Isle of Man", code: "IM", continent: "Europe", region: "Europe" },
+  { name: "Jersey", code: "JE", alpha3: "JEY", continent: "Europe", region: "Europe", capital: "Saint Helier", populationTier: "micro" },
+  { name: "Guernsey", code: "GG", alpha3: "GGY", continent: "Europe", region: "Europe", capital: "Saint Peter Port", populationTier: "micro" },
+  { name: "Isle of Man", code: "IM", alpha3: "IMN", continent: "Europe", region: "Europe", capital: "Douglas", populationTier: "micro" },
 
   // Other territories
-  { name: "Saint Helena", code: "SH", continent: "Africa", region: "Africa" },
-  { name: "Ascension Island", code: "AC", continent: "Africa", region: "Africa" },
-  { name: "Tristan da Cunha", code: "TA", continent: "Africa", region: "Africa" },
+  { name: "Saint Helena", code: "SH", alpha3: "SHN", continent: "Africa", region: "Africa", capital: "Jamestown", populationTier: "micro" },
+  { name: "Ascension Island", code: "AC", alpha3: null, continent: "Africa", region: "Africa", capital: "Georgetown", populationTier: "micro" },
+  { name: "Tristan da Cunha", code: "TA", alpha3: null, continent: "Africa", region: "Africa", capital: "Edinburgh of the Seven Seas", populationTier: "micro" },
 ];
 
 export const getCountryByCode = (code: string, _countries: Country[] = countries) => {
@@ -0,0 +1,46 @@
+// biome-ignore-all lint/style/useFilenamingConvention: named like the other data modules
+// Other names players commonly type, keyed by country code. Matching is done
+// after normalisation, so case, accents, punctuation, "St" for "Saint" and a
+// leading "The" don't need separate entries.
+export const COUNTRY_ALIASES: { [code: string]: string[] } = {
+  US: ['USA', 'US', 'United States of America', 'America'],
+  GB: ['UK', 'Great Britain', 'Britain'],
+  NL: ['Holland'],
+  CZ: ['Czechia'],
+  CD: ['DRC', 'DR Congo', 'Congo-Kinshasa', 'Zaire'],
+  CG: ['Congo', 'Congo-Brazzaville'],
+  CI: ["Côte d'Ivoire"],
+  KR: ['Korea', 'Republic of Korea'],
+  KP: ['DPRK'],
+  RU: ['Russian Federation'],
+  AE: ['UAE', 'Emirates'],
+  MK: ['Macedonia'],
+  SZ: ['Swaziland'],
+  MM: ['Burma'],
+  TL: ['East Timor'],
+  CV: ['Cabo Verde'],
+  VA: ['Vatican', 'Holy See'],
+  BA: ['Bosnia'],
+  TT: ['Trinidad'],
+  AG: ['Antigua'],
+  KN: ['Saint Kitts'],
+  VC: ['Saint Vincent'],
+  ST: ['Sao Tome'],
+  FM: ['Federated States of Micronesia'],
+  CF: ['CAR'],
+  PG: ['PNG'],
+  LA: ['Lao', 'Lao PDR'],
+  TR: ['Türkiye'],
+  IR: ['Persia'],
+  LK: ['Ceylon'],
+  TW: ['Republic of China', 'Chinese Taipei'],
+  CN: ['PRC', "People's Republic of China"],
+  VN: ['Viet Nam'],
+  MD: ['Republic of Moldova'],
+  BO: ['Plurinational State of Bolivia'],
+  VE: ['Bolivarian Republic of Venezuela'],
+  BN: ['Brunei Darussalam'],
+  SY: ['Syrian Arab Republic'],
+  VG: ['BVI'],
+  VI: ['USVI'],
+};
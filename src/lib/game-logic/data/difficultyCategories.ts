@@ -1,5 +1,7 @@
-import { Difficulty } from '../../constants';
-import { countries } from './countries';
+import type { CountryPool, Difficulty } from '../../constants';
+import { type Country, countries, type PopulationTier } from './countries';
+import { EXPERT_COUNTRY_POOLS } from './expertPools';
+import { SUB_REGIONS } from './flagPatterns';
 
 // Easy: Well-known, distinctive flags that are easily recognizable
 export const easyCountries = countries.filter(country => 
@@ -17,7 +19,66 @@ export const hardCountries = countries.filter(country =>
   !mediumCountries.find(mediumCountry => mediumCountry.code === country.code)
 );
 
-export const getDifficultyCountries = (difficulty: Difficulty) => {
+// Share of a filtered pool each difficulty draws from, best-known countries first
+const POOL_DIFFICULTY_SHARES: Record<Difficulty, number> = {
+  easy: 0.5,
+  medium: 0.75,
+  hard: 1,
+  expert: 1,
+};
+
+const POPULATION_TIER_RANK: Record<PopulationTier, number> = {
+  huge: 0,
+  large: 1,
+  medium: 2,
+  small: 3,
+  micro: 4,
+};
+
+const getRecognitionRank = (country: Country) => {
+  if (easyCountries.includes(country)) {
+    return 0;
+  }
+  return mediumCountries.includes(country) ? 1 : 2;
+};
+
+/** Countries in a room's pool, or null when the key doesn't name one */
+export const getPoolCountries = (pool: CountryPool): Country[] | null => {
+  switch (pool.kind) {
+    case 'continent':
+    case 'region': {
+      // "Europe/Asia" belongs to both
+      const matches = countries.filter(country => country[pool.kind].split('/').includes(pool.key));
+      return matches.length > 0 ? matches : null;
+    }
+    case 'subRegion':
+    case 'expertPool': {
+      const pools = pool.kind === 'subRegion' ? SUB_REGIONS : EXPERT_COUNTRY_POOLS;
+      if (!Object.keys(pools).includes(pool.key)) {
+        return null;
+      }
+      return countries.filter(country => pools[pool.key].includes(country.code));
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Without a pool this is the fixed tier list. With one, the pool is ranked by
+ * tier and then population, and easier difficulties keep only the top of it,
+ * so an easy "Africa" game still favours the flags people know.
+ */
+export const getDifficultyCountries = (difficulty: Difficulty, pool?: CountryPool | null) => {
+  if (pool) {
+    const ranked = [...(getPoolCountries(pool) ?? [])].sort(
+      (a, b) =>
+        getRecognitionRank(a) - getRecognitionRank(b) ||
+        POPULATION_TIER_RANK[a.populationTier] - POPULATION_TIER_RANK[b.populationTier]
+    );
+    return ranked.slice(0, Math.ceil(ranked.length * POOL_DIFFICULTY_SHARES[difficulty]));
+  }
+
   switch (difficulty) {
     case 'easy':
       return easyCountries;
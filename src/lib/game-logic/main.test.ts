@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { generateQuestion } from './main';
+import { createQuestionRandom } from './random';
+
+/** Plays the first few questions of a seeded game, the way GameManager does */
+const playSeededGame = (seed: string, questionCount = 5) => {
+  const usedCountries: string[] = [];
+  const questions: NonNullable<ReturnType<typeof generateQuestion>>[] = [];
+  for (let i = 0; i < questionCount; i++) {
+    const question = generateQuestion(
+      'medium',
+      usedCountries,
+      createQuestionRandom(seed, i)
+    );
+    if (!question) {
+      break;
+    }
+    usedCountries.push(question.currentCountry.code);
+    questions.push(question);
+  }
+  return questions;
+};
+
+describe('seeded questions', () => {
+  test('the same seed gives the same questions and options', () => {
+    const first = playSeededGame('replay-seed');
+    expect(first).toHaveLength(5);
+    expect(playSeededGame('replay-seed')).toEqual(first);
+  });
+
+  test('a different seed gives different questions', () => {
+    const countries = (seed: string) =>
+      playSeededGame(seed).map((question) => question.currentCountry.code);
+    expect(countries('other-seed')).not.toEqual(countries('replay-seed'));
+  });
+});
@@ -1,5 +1,5 @@
 import { Country, getCountryByCode } from "./data/countries";
-import { getDifficultyCountries } from "./data/difficultyCategories";
+import { getDifficultyCountries, getPoolCountries } from "./data/difficultyCategories";
 import {
   FLAG_COLOR_PATTERNS,
   FLAG_ELEMENTS,
@@ -13,31 +13,46 @@ import { EXPERT_COUNTRY_POOLS } from "./data/expertPools";
 import { HISTORICAL_CONFUSION_PAIRS } from "./data/historicalConfusion";
 import {
   DIFFICULTY_LEVELS,
+  CountryPool,
   Difficulty,
   DEFAULT_DIFFICULTY,
   EXPERT_DIFFICULTY,
   HARD_DIFFICULTY,
   MEDIUM_DIFFICULTY,
+  DEFAULT_QUESTION_TYPE,
+  DEFAULT_OPTION_COUNTS,
+  MIXED_QUESTION_TYPES,
+  QuestionType,
+  QuestionTypeSetting,
 } from "../constants";
 import { SIMILAR_NAMES } from "./data/similarNames";
+import type { RandomSource } from "./random";
+
+/** One answer choice; `code` is what the player submits and `name` is the label */
+export interface QuestionOption {
+  name: string;
+  code: string;
+}
 
 interface QuestionData {
   difficulty: Difficulty;
+  questionType: QuestionType;
   currentCountry: Country;
-  options: Country[];
+  options: QuestionOption[];
+  correctAnswer: string;
 }
 
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: RandomSource): T[] {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
 }
 
-function sampleOne<T>(array: T[]): T | undefined {
+function sampleOne<T>(array: T[], random: RandomSource): T | undefined {
   if (!array.length) return undefined;
-  const idx = Math.floor(Math.random() * array.length);
+  const idx = Math.floor(random() * array.length);
   return array[idx];
 }
 
@@ -62,6 +77,102 @@ export const getDifficultySettings = (difficulty: Difficulty) => {
   return settings[difficulty];
 };
 
+/** Question type for a 0-based question index; "mixed" alternates, starting with flag-to-name */
+export const resolveQuestionType = (
+  setting: QuestionTypeSetting | undefined,
+  questionIndex: number
+): QuestionType => {
+  if (setting === "mixed") {
+    return MIXED_QUESTION_TYPES[questionIndex % MIXED_QUESTION_TYPES.length];
+  }
+  return setting ?? DEFAULT_QUESTION_TYPE;
+};
+
+/** Every type a game with this setting can ask */
+const getQuestionTypes = (setting: QuestionTypeSetting | undefined): readonly QuestionType[] => {
+  if (setting === "mixed") {
+    return MIXED_QUESTION_TYPES;
+  }
+  return [setting ?? DEFAULT_QUESTION_TYPE];
+};
+
+/** Whether the player is shown a flag and picks a label, rather than picking among flags */
+export const isFlagPromptQuestion = (questionType: QuestionType): boolean =>
+  questionType === "flag-to-name" ||
+  questionType === "flag-to-capital" ||
+  questionType === "flag-to-continent";
+
+const usesCapitals = (questionType: QuestionType): boolean =>
+  questionType === "flag-to-capital" || questionType === "capital-to-flag";
+
+/** Countries a question of this type can be asked about */
+const getQuestionCountries = (
+  difficulty: Difficulty,
+  questionType: QuestionType,
+  countryPool?: CountryPool | null
+): Country[] =>
+  getDifficultyCountries(difficulty, countryPool).filter(
+    (country) => !usesCapitals(questionType) || country.capital
+  );
+
+/** Capital questions only ask about countries with a capital, so they can run out sooner */
+export const clampQuestionCount = (
+  difficulty: Difficulty,
+  questionCount?: number,
+  countryPool?: CountryPool | null,
+  questionType?: QuestionTypeSetting
+): number => {
+  const poolSize = Math.min(
+    ...getQuestionTypes(questionType).map(
+      (type) => getQuestionCountries(difficulty, type, countryPool).length
+    )
+  );
+  const requested = questionCount ?? getDifficultySettings(difficulty).count;
+  return Math.max(1, Math.min(requested, poolSize));
+};
+
+interface CountryPoolSettings {
+  difficulty: Difficulty;
+  questionType?: QuestionTypeSetting;
+  questionCount?: number;
+  optionCount?: number;
+  countryPool?: CountryPool | null;
+}
+
+/**
+ * Checks a room's country pool can fill the game it's set up for: a fresh
+ * country for every question, and enough countries in the pool to make up
+ * each question's options. Rooms without a pool always pass; their question
+ * count is clamped instead.
+ */
+export const validateCountryPool = (settings: CountryPoolSettings): { success: boolean; error?: string } => {
+  const { difficulty, countryPool } = settings;
+  if (!countryPool) {
+    return { success: true };
+  }
+  if (!getPoolCountries(countryPool)) {
+    return { success: false, error: `Unknown ${countryPool.kind} "${countryPool.key}"` };
+  }
+
+  const optionCount = settings.optionCount ?? DEFAULT_OPTION_COUNTS[difficulty];
+  for (const questionType of getQuestionTypes(settings.questionType)) {
+    if (countryPool.kind === "continent" && questionType === "flag-to-continent") {
+      return { success: false, error: `Every answer would be ${countryPool.key}; pick another question type` };
+    }
+
+    const poolSize = getQuestionCountries(difficulty, questionType, countryPool).length;
+    const poolLabel = `The ${countryPool.key} pool has ${poolSize} ${poolSize === 1 ? "country" : "countries"} on ${difficulty}`;
+    if (settings.questionCount !== undefined && poolSize < settings.questionCount) {
+      return { success: false, error: `${poolLabel}, not enough for ${settings.questionCount} questions` };
+    }
+    // Continent options come from the whole world, see generateQuestion
+    if (questionType !== "flag-to-continent" && poolSize < optionCount) {
+      return { success: false, error: `${poolLabel}, not enough for ${optionCount} options` };
+    }
+  }
+  return { success: true };
+};
+
 // ============================================================================
 // SIMILARITY SCORING
 // ============================================================================
@@ -78,13 +189,23 @@ const isDistinctiveFlag = (countryCode: string): boolean => {
   return DISTINCTIVE_FLAGS.includes(countryCode);
 };
 
-const weightedRandomSelect = (items: Country[], weights: number[]) => {
+const sharesFlagTrait = (
+  traits: Record<string, string[]>,
+  correctCode: string,
+  candidateCode: string
+): boolean => {
+  return Object.values(traits).some(
+    (codes) => codes.includes(correctCode) && codes.includes(candidateCode)
+  );
+};
+
+const weightedRandomSelect = <T>(items: T[], weights: number[], random: RandomSource): T => {
   const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   for (let i = 0; i < items.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
+    remaining -= weights[i];
+    if (remaining <= 0) {
       return items[i];
     }
   }
@@ -94,12 +215,15 @@ const weightedRandomSelect = (items: Country[], weights: number[]) => {
 const calculateOptionSimilarityScore = (
   correctCountry: Country,
   candidateCountry: Country,
-  difficulty: Difficulty
+  difficulty: Difficulty,
+  random: RandomSource,
+  questionType: QuestionType = DEFAULT_QUESTION_TYPE
 ): number => {
   if (difficulty === EXPERT_DIFFICULTY) {
     return calculateExpertOptionSimilarityScore(
       correctCountry,
-      candidateCountry
+      candidateCountry,
+      random
     );
   }
 
@@ -122,7 +246,16 @@ const calculateOptionSimilarityScore = (
     similarityScore += 50;
   }
 
-  if (similarNames.includes(candidateCountry.name)) {
+  // Name-to-flag players compare flags side by side, so lookalike designs
+  // matter and lookalike names don't
+  if (questionType === "name-to-flag") {
+    if (sharesFlagTrait(FLAG_COLOR_PATTERNS, correctCountry.code, candidateCountry.code)) {
+      similarityScore += 30;
+    }
+    if (sharesFlagTrait(FLAG_ELEMENTS, correctCountry.code, candidateCountry.code)) {
+      similarityScore += 25;
+    }
+  } else if (similarNames.includes(candidateCountry.name)) {
     similarityScore += 35;
   }
 
@@ -240,7 +373,7 @@ const calculateOptionSimilarityScore = (
 
   // Random bonus for variety
   similarityScore +=
-    Math.random() * (difficulty === EXPERT_DIFFICULTY ? 5 : 15);
+    random() * (difficulty === EXPERT_DIFFICULTY ? 5 : 15);
 
   return Math.max(similarityScore, 1);
 };
@@ -251,23 +384,24 @@ const calculateOptionSimilarityScore = (
 
 const selectCorrectCountry = (
   difficulty: Difficulty,
-  remainingCountries: Country[]
+  remainingCountries: Country[],
+  random: RandomSource
 ): Country => {
   if (difficulty === EXPERT_DIFFICULTY) {
     const pools = EXPERT_COUNTRY_POOLS;
-    if (Math.random() < 0.7) {
+    if (random() < 0.7) {
       const challengingCountries = remainingCountries.filter((country) =>
         Object.values(pools).some((pool) => pool.includes(country.code))
       );
       if (challengingCountries.length > 0) {
         return challengingCountries[
-          Math.floor(Math.random() * challengingCountries.length)
+          Math.floor(random() * challengingCountries.length)
         ];
       }
     }
   }
   return remainingCountries[
-    Math.floor(Math.random() * remainingCountries.length)
+    Math.floor(random() * remainingCountries.length)
   ];
 };
 
@@ -275,12 +409,27 @@ const selectCorrectCountry = (
 // DISTRACTOR GENERATION HELPERS
 // ======================
 
+/**
+ * Guaranteed picks from the high (60+) and medium (30-60) similarity tiers, as
+ * a share of the distractor count. Easy skips the high tier so its options
+ * stay easy to tell apart; whatever is left is a similarity-weighted pick.
+ */
+const DISTRACTOR_TIER_SHARES: Record<Exclude<Difficulty, "expert">, { high: number; medium: number }> = {
+  [DEFAULT_DIFFICULTY]: { high: 0, medium: 1 / 3 },
+  [MEDIUM_DIFFICULTY]: { high: 1 / 3, medium: 1 / 3 },
+  [HARD_DIFFICULTY]: { high: 1 / 3, medium: 1 / 3 },
+};
+
 const generateDistractors = (
   correctCountry: Country,
   availableCountries: Country[],
-  difficulty: Difficulty
+  difficulty: Difficulty,
+  random: RandomSource,
+  questionType: QuestionType,
+  distractorCount: number
 ): Country[] => {
   const incorrectOptions: Country[] = [];
+  const isChosen = (code: string) => incorrectOptions.some((option) => option.code === code);
   const candidateCountries = availableCountries.filter(
     (c) => c.code !== correctCountry.code
   );
@@ -289,89 +438,65 @@ const generateDistractors = (
     similarityScore: calculateOptionSimilarityScore(
       correctCountry,
       candidate,
-      difficulty
+      difficulty,
+      random,
+      questionType
     ),
   }));
   const minScoreThreshold = difficulty === EXPERT_DIFFICULTY ? 60 : 1;
   const viableCandidates = candidatesWithScores.filter(
     (c) => c.similarityScore >= minScoreThreshold
   );
-  const finalCandidates =
+  const fallbackCandidates =
     difficulty === EXPERT_DIFFICULTY
-      ? viableCandidates.length >= 3
-        ? viableCandidates
-        : candidatesWithScores.filter((c) => c.similarityScore >= 40)
-      : viableCandidates.length >= 3
-      ? viableCandidates
+      ? candidatesWithScores.filter((c) => c.similarityScore >= 40)
       : candidatesWithScores;
+  const finalCandidates =
+    viableCandidates.length >= distractorCount ? viableCandidates : fallbackCandidates;
 
   if (difficulty === EXPERT_DIFFICULTY && finalCandidates.length > 0) {
     // Sort candidates by descending similarity score
     const sortedCandidates = [...finalCandidates].sort(
       (a, b) => b.similarityScore - a.similarityScore
     );
-    // Always include the top 2 most similar countries
-    for (let i = 0; i < 2 && i < sortedCandidates.length; i++) {
+    // All but one distractor come straight from the top of the ranking
+    const topCount = Math.max(1, distractorCount - 1);
+    for (let i = 0; i < topCount && i < sortedCandidates.length; i++) {
       incorrectOptions.push(sortedCandidates[i].country);
     }
-    // For the 3rd distractor, randomly pick from the next 5–10 most similar (not already chosen)
-    const poolStart = 2;
-    const poolEnd = Math.min(10, sortedCandidates.length);
+    // The last one is sampled from the next 8 most similar, so the set isn't fully predictable
     const pool = sortedCandidates
-      .slice(poolStart, poolEnd)
-      .filter(
-        (c) => !incorrectOptions.find((option) => option.code === c.country.code)
-      );
-    if (pool.length > 0) {
-      const sampled = sampleOne(pool);
+      .slice(topCount, topCount + 8)
+      .filter((c) => !isChosen(c.country.code));
+    if (incorrectOptions.length < distractorCount && pool.length > 0) {
+      const sampled = sampleOne(pool, random);
       if (sampled) incorrectOptions.push(sampled.country);
     }
-    // If still not enough, fill with next most similar
-    while (incorrectOptions.length < 3 && poolStart < sortedCandidates.length) {
-      const next = sortedCandidates[poolStart + incorrectOptions.length - 2];
-      if (
-        next &&
-        !incorrectOptions.find((option) => option.code === next.country.code)
-      ) {
-        incorrectOptions.push(next.country);
-      } else {
-        break;
-      }
-    }
   } else {
-    // Original logic for other difficulties
-    // Ensure at least one very similar option (high similarity)
-    const highSimilarityCandidates = finalCandidates.filter(
-      (c) => c.similarityScore >= 60
-    );
-    if (highSimilarityCandidates.length > 0) {
-      const highSimilarityCountry =
-        highSimilarityCandidates[
-          Math.floor(Math.random() * highSimilarityCandidates.length)
-        ].country;
-      incorrectOptions.push(highSimilarityCountry);
-    }
-    // Ensure at least one moderately similar option (medium similarity)
-    if (incorrectOptions.length < 3) {
-      const mediumSimilarityCandidates = finalCandidates.filter(
-        (c) =>
-          c.similarityScore >= 30 &&
-          c.similarityScore < 60 &&
-          !incorrectOptions.find((option) => option.code === c.country.code)
-      );
-      if (mediumSimilarityCandidates.length > 0) {
-        const mediumSimilarityCountry =
-          mediumSimilarityCandidates[
-            Math.floor(Math.random() * mediumSimilarityCandidates.length)
-          ].country;
-        incorrectOptions.push(mediumSimilarityCountry);
+    const shares = DISTRACTOR_TIER_SHARES[difficulty as Exclude<Difficulty, "expert">];
+    const tiers = [
+      { count: Math.round(distractorCount * shares.high), min: 60, max: Number.POSITIVE_INFINITY },
+      { count: Math.round(distractorCount * shares.medium), min: 30, max: 60 },
+    ];
+    for (const tier of tiers) {
+      for (let i = 0; i < tier.count && incorrectOptions.length < distractorCount; i++) {
+        const tierCandidates = finalCandidates.filter(
+          (c) =>
+            c.similarityScore >= tier.min &&
+            c.similarityScore < tier.max &&
+            !isChosen(c.country.code)
+        );
+        if (tierCandidates.length === 0) {
+          break;
+        }
+        incorrectOptions.push(
+          tierCandidates[Math.floor(random() * tierCandidates.length)].country
+        );
       }
     }
   }
-  while (incorrectOptions.length < 3 && finalCandidates.length > 0) {
-    const availableCandidates = finalCandidates.filter(
-      (c) => !incorrectOptions.find((option) => option.code === c.country.code)
-    );
+  while (incorrectOptions.length < distractorCount && finalCandidates.length > 0) {
+    const availableCandidates = finalCandidates.filter((c) => !isChosen(c.country.code));
     if (availableCandidates.length === 0) break;
     const countries = availableCandidates.map((c) => c.country);
     const weights = availableCandidates.map((c) =>
@@ -379,53 +504,210 @@ const generateDistractors = (
         ? Math.pow(c.similarityScore, 2)
         : c.similarityScore
     );
-    const selectedCountry = weightedRandomSelect(countries, weights);
+    const selectedCountry = weightedRandomSelect(countries, weights, random);
     incorrectOptions.push(selectedCountry);
   }
   while (
-    incorrectOptions.length < 3 &&
+    incorrectOptions.length < distractorCount &&
     candidateCountries.length > incorrectOptions.length
   ) {
-    const remainingCandidates = candidateCountries.filter(
-      (c) => !incorrectOptions.find((option) => option.code === c.code)
-    );
+    const remainingCandidates = candidateCountries.filter((c) => !isChosen(c.code));
     if (remainingCandidates.length === 0) break;
     const nextCandidate =
       remainingCandidates[
-        Math.floor(Math.random() * remainingCandidates.length)
+        Math.floor(random() * remainingCandidates.length)
       ];
     incorrectOptions.push(nextCandidate);
   }
-  return incorrectOptions.slice(0, 3);
+  return incorrectOptions.slice(0, distractorCount);
+};
+
+// ======================
+// CAPITAL AND CONTINENT DISTRACTORS
+// ======================
+
+const shareSubRegion = (correctCode: string, candidateCode: string): boolean =>
+  Object.values(SUB_REGIONS).some(
+    (codes) => codes.includes(correctCode) && codes.includes(candidateCode)
+  );
+
+const CAPITAL_WEIGHT_EXPONENTS: Record<Difficulty, number> = {
+  easy: 1,
+  medium: 1,
+  hard: 2,
+  expert: 3,
+};
+
+/**
+ * Capitals of nearby countries are the hardest to tell apart, so neighbours
+ * and sub-region peers are weighted up, more steeply at higher difficulties.
+ * Countries sharing the correct capital's name (Kingston, Georgetown) are
+ * skipped so every option reads differently.
+ */
+const generateCapitalDistractors = (
+  correctCountry: Country,
+  availableCountries: Country[],
+  difficulty: Difficulty,
+  random: RandomSource,
+  distractorCount: number
+): Country[] => {
+  const incorrectOptions: Country[] = [];
+  const usedCapitals = new Set([correctCountry.capital]);
+  const exponent = CAPITAL_WEIGHT_EXPONENTS[difficulty];
+
+  const scored = availableCountries
+    .filter((candidate) => candidate.code !== correctCountry.code && candidate.capital)
+    .map((candidate) => {
+      let score = 1;
+      if (GEOGRAPHIC_NEIGHBORS[correctCountry.code]?.includes(candidate.code)) {
+        score += 60;
+      }
+      if (shareSubRegion(correctCountry.code, candidate.code)) {
+        score += 40;
+      }
+      if (candidate.region === correctCountry.region) {
+        score += difficulty === DEFAULT_DIFFICULTY ? 5 : 20;
+      }
+      return { country: candidate, weight: (score + random() * 10) ** exponent };
+    });
+
+  while (incorrectOptions.length < distractorCount) {
+    const pool = scored.filter((entry) => !usedCapitals.has(entry.country.capital));
+    if (pool.length === 0) {
+      break;
+    }
+    const selected = weightedRandomSelect(
+      pool.map((entry) => entry.country),
+      pool.map((entry) => entry.weight),
+      random
+    );
+    usedCapitals.add(selected.capital);
+    incorrectOptions.push(selected);
+  }
+  return incorrectOptions;
+};
+
+/** Transcontinental countries ("Europe/Asia") count as their first-listed continent */
+const getAnswerContinent = (country: Country): string => country.continent.split("/")[0];
+
+/**
+ * Easy questions pick wrong continents at random. From medium up, continents
+ * that the correct country's neighbours and sub-region peers belong to are
+ * preferred, e.g. Asia for Egypt or Europe for Turkey.
+ */
+const generateContinentDistractors = (
+  correctCountry: Country,
+  availableCountries: Country[],
+  difficulty: Difficulty,
+  random: RandomSource,
+  distractorCount: number
+): string[] => {
+  // Russia's wrong answers can't include Asia either
+  const continents = Array.from(
+    new Set(availableCountries.map(getAnswerContinent))
+  ).filter((continent) => !correctCountry.continent.split("/").includes(continent));
+
+  const weights = continents.map((continent) => {
+    if (difficulty === DEFAULT_DIFFICULTY) {
+      return 1;
+    }
+    const nearby = availableCountries.filter(
+      (country) =>
+        getAnswerContinent(country) === continent &&
+        (GEOGRAPHIC_NEIGHBORS[correctCountry.code]?.includes(country.code) ||
+          shareSubRegion(correctCountry.code, country.code) ||
+          country.region === correctCountry.region)
+    ).length;
+    return 1 + nearby * (difficulty === MEDIUM_DIFFICULTY ? 2 : 5);
+  });
+
+  const incorrectOptions: string[] = [];
+  while (incorrectOptions.length < distractorCount && incorrectOptions.length < continents.length) {
+    const pool = continents.filter((continent) => !incorrectOptions.includes(continent));
+    const poolWeights = pool.map((continent) => weights[continents.indexOf(continent)]);
+    incorrectOptions.push(weightedRandomSelect(pool, poolWeights, random));
+  }
+  return incorrectOptions;
+};
+
+const buildOptions = (
+  questionType: QuestionType,
+  correctCountry: Country,
+  availableCountries: Country[],
+  difficulty: Difficulty,
+  random: RandomSource,
+  optionCount: number
+): QuestionOption[] => {
+  const distractorCount = optionCount - 1;
+  switch (questionType) {
+    case "flag-to-capital":
+    case "capital-to-flag": {
+      const countries = [
+        correctCountry,
+        ...generateCapitalDistractors(correctCountry, availableCountries, difficulty, random, distractorCount),
+      ];
+      return questionType === "flag-to-capital"
+        ? countries.map((country) => ({ name: country.capital ?? country.name, code: country.code }))
+        : countries;
+    }
+    case "flag-to-continent":
+      return [
+        getAnswerContinent(correctCountry),
+        ...generateContinentDistractors(correctCountry, availableCountries, difficulty, random, distractorCount),
+      ].map((continent) => ({ name: continent, code: continent }));
+    default:
+      return [
+        correctCountry,
+        ...generateDistractors(correctCountry, availableCountries, difficulty, random, questionType, distractorCount),
+      ];
+  }
 };
 
 // ============================================================================
 // MAIN GAME LOGIC
 // ============================================================================
 
+/**
+ * Picks the next country and its options. Pass a seeded random source to get
+ * the same question for the same difficulty and used countries every time.
+ * Option codes are country codes, except for flag-to-continent where they are
+ * the continent names; `correctAnswer` is always one of them. Continent
+ * questions can end up with fewer options than asked for. With a country
+ * pool, both the asked country and the options come from the pool.
+ */
 export const generateQuestion = (
   difficulty: Difficulty,
-  usedCountries: string[] = []
+  usedCountries: string[] = [],
+  random: RandomSource = Math.random,
+  questionType: QuestionType = DEFAULT_QUESTION_TYPE,
+  optionCount: number = DEFAULT_OPTION_COUNTS[difficulty],
+  countryPool: CountryPool | null = null
 ): QuestionData | null => {
-  const availableCountries = getDifficultyCountries(difficulty);
+  const availableCountries = getQuestionCountries(difficulty, questionType, countryPool);
   const remainingCountries = availableCountries.filter(
     (country) => !usedCountries.includes(country.code)
   );
   if (remainingCountries.length === 0) {
     return null;
   }
-  const correctCountry = selectCorrectCountry(difficulty, remainingCountries);
-  const incorrectOptions = generateDistractors(
+  const correctCountry = selectCorrectCountry(difficulty, remainingCountries, random);
+  // A pool usually sits within one continent, so continent options ignore it
+  const allOptions = buildOptions(
+    questionType,
     correctCountry,
-    availableCountries,
-    difficulty
+    questionType === "flag-to-continent" ? getQuestionCountries(difficulty, questionType) : availableCountries,
+    difficulty,
+    random,
+    optionCount
   );
-  const allOptions = [correctCountry, ...incorrectOptions];
-  const shuffledOptions = shuffleArray(allOptions);
+  const shuffledOptions = shuffleArray(allOptions, random);
   return {
     difficulty,
+    questionType,
     currentCountry: correctCountry,
     options: shuffledOptions,
+    correctAnswer:
+      questionType === "flag-to-continent" ? getAnswerContinent(correctCountry) : correctCountry.code,
   };
 };
 
@@ -495,7 +777,8 @@ const getHistoricalConfusionBonus = (
 
 const calculateExpertOptionSimilarityScore = (
   correctCountry: Country,
-  candidateCountry: Country
+  candidateCountry: Country,
+  random: RandomSource
 ): number => {
   let score = 0;
   const pools = EXPERT_COUNTRY_POOLS;
@@ -583,7 +866,7 @@ const calculateExpertOptionSimilarityScore = (
   );
 
   // Balanced random element (reduced for more consistent difficulty)
-  score += Math.random() * 5;
+  score += random() * 5;
 
   return Math.max(score, 1);
 };
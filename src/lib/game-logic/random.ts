@@ -0,0 +1,42 @@
+// biome-ignore-all lint/nursery/noBitwiseOperators: the hash and PRNG work on 32-bit integers
+import { nanoid } from 'nanoid';
+
+/** Returns a float in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+export const createSeed = (): string => nanoid(16);
+
+/** xmur3 string hash, used to turn a seed string into a 32-bit state */
+const hashSeed = (seed: string): number => {
+  let hash = 1_779_033_703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3_432_918_353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2_246_822_507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3_266_489_909);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/** mulberry32: small, fast and good enough for shuffling options */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d_2b_79_f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+/**
+ * Random source for one question of a seeded game. Deriving a fresh stream
+ * per question keeps the sequence reproducible even when a game is resumed
+ * from storage partway through.
+ */
+export const createQuestionRandom = (
+  seed: string,
+  questionIndex: number
+): RandomSource => createSeededRandom(`${seed}:${questionIndex}`);
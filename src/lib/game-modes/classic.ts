@@ -0,0 +1,41 @@
+import type {
+  GameMode,
+  GameState,
+  PointsBreakdown,
+  Room,
+  User,
+} from '../../types/entities';
+import { CORRECT_POINT_COST } from '../constants/game-constants';
+import type { GameModeHandler, QuestionEndResult, ScoreContext } from './types';
+
+export class ClassicModeHandler implements GameModeHandler {
+  readonly mode: GameMode = 'classic';
+
+  createInitialState(_room: Room): Partial<GameState> {
+    return {};
+  }
+
+  getActivePlayers(room: Room): User[] {
+    return room.members;
+  }
+
+  canSubmitAnswer(room: Room, userId: string): boolean {
+    return this.getActivePlayers(room).some((member) => member.id === userId);
+  }
+
+  scoreAnswer({ isCorrect }: ScoreContext): PointsBreakdown {
+    return {
+      base: isCorrect ? CORRECT_POINT_COST : 0,
+      speedBonus: 0,
+      rankBonus: 0,
+    };
+  }
+
+  onQuestionEnd(_room: Room): QuestionEndResult {
+    return {};
+  }
+
+  isGameOver(_room: Room): boolean {
+    return false;
+  }
+}
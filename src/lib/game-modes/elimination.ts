@@ -0,0 +1,86 @@
+import type { GameMode, GameState, Room, User } from '../../types/entities';
+import { MAX_HEARTS } from '../constants/game-constants';
+import { WS_MESSAGE_TYPES } from '../constants/ws-message-types';
+import { ClassicModeHandler } from './classic';
+import type { GameModeMessage, QuestionEndResult } from './types';
+
+export class EliminationModeHandler extends ClassicModeHandler {
+  override readonly mode: GameMode = 'elimination';
+
+  override createInitialState(room: Room): Partial<GameState> {
+    return {
+      hearts: Object.fromEntries(
+        room.members.map((member) => [member.id, MAX_HEARTS])
+      ),
+      eliminatedPlayers: [],
+    };
+  }
+
+  override getActivePlayers(room: Room): User[] {
+    return room.members.filter(
+      (member) => !room.gameState.eliminatedPlayers.includes(member.id)
+    );
+  }
+
+  override onQuestionEnd(room: Room): QuestionEndResult {
+    const { gameState } = room;
+    if (!gameState.currentQuestion) {
+      return {};
+    }
+
+    const questionIndex = gameState.currentQuestion.index;
+    const hearts = { ...gameState.hearts };
+    const heartsLost: string[] = [];
+    const newlyEliminated: User[] = [];
+
+    for (const member of this.getActivePlayers(room)) {
+      const answer = gameState.answers.find((a) => a.userId === member.id);
+      if (answer?.isCorrect) {
+        continue;
+      }
+
+      const remaining = Math.max(0, (hearts[member.id] ?? MAX_HEARTS) - 1);
+      hearts[member.id] = remaining;
+      heartsLost.push(member.id);
+      if (remaining === 0) {
+        newlyEliminated.push(member);
+      }
+    }
+
+    if (heartsLost.length === 0) {
+      return {};
+    }
+
+    const eliminatedPlayers = [
+      ...gameState.eliminatedPlayers,
+      ...newlyEliminated.map((member) => member.id),
+    ];
+    const remainingPlayers = room.members.filter(
+      (member) => !eliminatedPlayers.includes(member.id)
+    ).length;
+
+    const messages: GameModeMessage[] = [
+      {
+        type: WS_MESSAGE_TYPES.HEARTS_UPDATED,
+        data: { hearts, heartsLost, questionIndex },
+      },
+      ...newlyEliminated.map(
+        (member): GameModeMessage => ({
+          type: WS_MESSAGE_TYPES.PLAYER_ELIMINATED,
+          data: {
+            userId: member.id,
+            username: member.username,
+            questionIndex,
+            remainingPlayers,
+          },
+        })
+      ),
+    ];
+
+    return { stateUpdates: { hearts, eliminatedPlayers }, messages };
+  }
+
+  override isGameOver(room: Room): boolean {
+    return this.getActivePlayers(room).length <= 1;
+  }
+}
@@ -0,0 +1,32 @@
+import type { GameMode } from '../../types/entities';
+import { ClassicModeHandler } from './classic';
+import { EliminationModeHandler } from './elimination';
+import { SpeedModeHandler } from './speed';
+import type { GameModeHandler } from './types';
+
+const handlers = new Map<GameMode, GameModeHandler>();
+const defaultHandler = new ClassicModeHandler();
+
+export const registerGameModeHandler = (handler: GameModeHandler): void => {
+  handlers.set(handler.mode, handler);
+};
+
+export const getGameModeHandler = (
+  mode: GameMode | undefined
+): GameModeHandler => {
+  return (mode && handlers.get(mode)) || defaultHandler;
+};
+
+registerGameModeHandler(defaultHandler);
+registerGameModeHandler(new SpeedModeHandler());
+registerGameModeHandler(new EliminationModeHandler());
+
+export { ClassicModeHandler } from './classic';
+export { EliminationModeHandler } from './elimination';
+export { SpeedModeHandler } from './speed';
+export type {
+  GameModeHandler,
+  GameModeMessage,
+  QuestionEndResult,
+  ScoreContext,
+} from './types';
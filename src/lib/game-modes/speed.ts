@@ -0,0 +1,37 @@
+import type { GameMode, PointsBreakdown } from '../../types/entities';
+import {
+  CORRECT_POINT_COST,
+  FIRST_CORRECT_BONUS_POINTS,
+  SPEED_BONUS_MAX_POINTS,
+} from '../constants/game-constants';
+import { ClassicModeHandler } from './classic';
+import type { ScoreContext } from './types';
+
+export class SpeedModeHandler extends ClassicModeHandler {
+  override readonly mode: GameMode = 'speed';
+
+  override scoreAnswer({
+    room,
+    timeToAnswer,
+    isCorrect,
+  }: ScoreContext): PointsBreakdown {
+    if (!isCorrect) {
+      return { base: 0, speedBonus: 0, rankBonus: 0 };
+    }
+
+    // Speed bonus decays linearly to zero as the answer approaches the question deadline
+    const timeLimitMs = room.settings.timePerQuestion * 1000;
+    const remainingRatio = Math.min(
+      1,
+      Math.max(0, 1 - timeToAnswer / timeLimitMs)
+    );
+    const speedBonus = Math.round(SPEED_BONUS_MAX_POINTS * remainingRatio);
+
+    const isFirstCorrect = !room.gameState.answers.some(
+      (existing) => existing.isCorrect
+    );
+    const rankBonus = isFirstCorrect ? FIRST_CORRECT_BONUS_POINTS : 0;
+
+    return { base: CORRECT_POINT_COST, speedBonus, rankBonus };
+  }
+}
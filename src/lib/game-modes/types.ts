@@ -0,0 +1,38 @@
+import type {
+  GameMode,
+  GameState,
+  PointsBreakdown,
+  Room,
+  User,
+} from '../../types/entities';
+import type { MessageDataTypes } from '../managers/websocket-management';
+
+export type GameModeMessage = {
+  [K in keyof MessageDataTypes]: { type: K; data: MessageDataTypes[K] };
+}[keyof MessageDataTypes];
+
+export interface ScoreContext {
+  room: Room;
+  userId: string;
+  timeToAnswer: number;
+  isCorrect: boolean;
+}
+
+export interface QuestionEndResult {
+  stateUpdates?: Partial<GameState>;
+  messages?: GameModeMessage[];
+}
+
+export interface GameModeHandler {
+  readonly mode: GameMode;
+  /** Mode-specific game state merged into the fresh state when a game (re)starts */
+  createInitialState(room: Room): Partial<GameState>;
+  /** Members still taking part in the game; used for the "everyone answered" check */
+  getActivePlayers(room: Room): User[];
+  canSubmitAnswer(room: Room, userId: string): boolean;
+  scoreAnswer(context: ScoreContext): PointsBreakdown;
+  /** Runs once per question before results are broadcast */
+  onQuestionEnd(room: Room): QuestionEndResult;
+  /** Checked before every question; question exhaustion is handled by GameManager */
+  isGameOver(room: Room): boolean;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { ipMatchesRange, parseIPRange } from '../utils/security/network';
+import { bansManager } from './ban-management';
+
+describe('IP ranges', () => {
+  test('parses addresses and CIDR ranges down to their network', () => {
+    expect(parseIPRange('203.0.113.77/24')).toEqual({
+      version: 4,
+      network: 0xcb007100n,
+      prefix: 24,
+    });
+    expect(parseIPRange('198.51.100.7')).toMatchObject({
+      version: 4,
+      prefix: 32,
+    });
+    expect(parseIPRange('2001:db8::1/32')).toEqual({
+      version: 6,
+      network: 0x2001_0db8_0000_0000_0000_0000_0000_0000n,
+      prefix: 32,
+    });
+    expect(parseIPRange('::ffff:192.0.2.1')).toMatchObject({
+      version: 4,
+      prefix: 32,
+    });
+  });
+
+  test('rejects malformed ranges', () => {
+    for (const range of [
+      '203.0.113.0/33',
+      '203.0.113/24',
+      '256.0.0.1',
+      '2001:db8::/129',
+      '1:2:3:4:5:6:7:8:9',
+      'a/b/c',
+      '',
+    ]) {
+      expect(parseIPRange(range)).toBeNull();
+    }
+  });
+
+  test('matches addresses inside the range only', () => {
+    expect(ipMatchesRange('203.0.113.200', '203.0.113.0/24')).toBe(true);
+    expect(ipMatchesRange('203.0.114.1', '203.0.113.0/24')).toBe(false);
+    expect(ipMatchesRange('2001:db8:ffff::1', '2001:db8::/32')).toBe(true);
+    expect(ipMatchesRange('2001:db9::1', '2001:db8::/32')).toBe(false);
+    expect(ipMatchesRange('0.0.0.0', '0.0.0.0/0')).toBe(true);
+  });
+
+  test('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(ipMatchesRange('::ffff:203.0.113.9', '203.0.113.0/24')).toBe(true);
+    expect(ipMatchesRange('203.0.113.9', '2001:db8::/32')).toBe(false);
+  });
+});
+
+describe('IP bans', () => {
+  test('a CIDR ban covers every address in the range until it is lifted', () => {
+    const ban = bansManager.createBan({
+      type: 'ip',
+      target: '198.51.100.0/28',
+      reason: 'test',
+      issuedBy: 'test',
+    });
+
+    expect(bansManager.findIPBan('198.51.100.15')?.id).toBe(ban.id);
+    expect(bansManager.isBanned(null, '::ffff:198.51.100.3')?.id).toBe(ban.id);
+    expect(bansManager.findIPBan('198.51.100.16')).toBeNull();
+
+    bansManager.liftBan(ban.id);
+    expect(bansManager.findIPBan('198.51.100.15')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { nanoid } from 'nanoid';
+import type { Ban, BanType } from '../../types/entities';
+import { storage } from '../storage';
+import { ipMatchesRange } from '../utils/security/network';
+
+interface CreateBanParams {
+  type: BanType;
+  target: string;
+  reason: string;
+  issuedBy: string;
+  /** Omit for a permanent ban */
+  durationMs?: number;
+}
+
+const isActive = (ban: Ban, now: number = Date.now()): boolean =>
+  ban.expiresAt === null || ban.expiresAt > now;
+
+class BanManager {
+  private bans = new Map<string, Ban>();
+
+  rehydrate(): Ban[] {
+    const now = Date.now();
+    for (const ban of storage.loadBans()) {
+      if (!isActive(ban, now)) {
+        storage.deleteBan(ban.id);
+        continue;
+      }
+      this.bans.set(ban.id, ban);
+    }
+    return Array.from(this.bans.values());
+  }
+
+  createBan(params: CreateBanParams): Ban {
+    const createdAt = Date.now();
+    const ban: Ban = {
+      id: nanoid(),
+      type: params.type,
+      target: params.target,
+      reason: params.reason,
+      issuedBy: params.issuedBy,
+      createdAt,
+      expiresAt: params.durationMs ? createdAt + params.durationMs : null,
+    };
+
+    this.bans.set(ban.id, ban);
+    storage.saveBan(ban);
+    return ban;
+  }
+
+  liftBan(banId: string): Ban | null {
+    const ban = this.bans.get(banId);
+    if (!ban) {
+      return null;
+    }
+
+    this.bans.delete(banId);
+    storage.deleteBan(banId);
+    return ban;
+  }
+
+  getBan(banId: string): Ban | null {
+    return this.bans.get(banId) || null;
+  }
+
+  listBans(includeExpired = false): Ban[] {
+    const bans = Array.from(this.bans.values());
+    return (includeExpired ? bans : bans.filter((ban) => isActive(ban))).sort(
+      (a, b) => b.createdAt - a.createdAt
+    );
+  }
+
+  findUserBan(userId: string): Ban | null {
+    return (
+      this.listBans().find(
+        (ban) => ban.type === 'user' && ban.target === userId
+      ) || null
+    );
+  }
+
+  findIPBan(ipAddress: string): Ban | null {
+    return (
+      this.listBans().find(
+        (ban) => ban.type === 'ip' && ipMatchesRange(ipAddress, ban.target)
+      ) || null
+    );
+  }
+
+  isBanned(userId: string | null, ipAddress?: string): Ban | null {
+    return (
+      (userId && this.findUserBan(userId)) ||
+      (ipAddress && this.findIPBan(ipAddress)) ||
+      null
+    );
+  }
+
+  pruneExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const ban of this.bans.values()) {
+      if (isActive(ban, now)) {
+        continue;
+      }
+      this.bans.delete(ban.id);
+      storage.deleteBan(ban.id);
+      removed++;
+    }
+    return removed;
+  }
+}
+
+export const bansManager = new BanManager();
@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'bun:test';
+import { storage } from '../storage';
+import { ErrorCode } from '../utils/error-handler';
+import {
+  dailyChallengeManager,
+  getDailyChallengeDate,
+} from './daily-challenge-management';
+
+describe('daily challenge attempts', () => {
+  test('an attempt finished on another instance blocks a new one here', () => {
+    const userId = 'daily-test-user';
+    const started = dailyChallengeManager.startAttempt(userId, 'player');
+    expect(started.date).toBe(getDailyChallengeDate());
+
+    // Another instance sharing the storage finishes the attempt
+    const stored = storage.loadDailyAttempt(started.date, userId);
+    if (!stored) {
+      throw new Error('The attempt was not stored');
+    }
+    storage.saveDailyAttempt({ ...stored, completedAt: Date.now() });
+
+    expect(() => dailyChallengeManager.startAttempt(userId, 'player')).toThrow(
+      expect.objectContaining({ code: ErrorCode.DAILY_CHALLENGE_COMPLETED })
+    );
+  });
+});
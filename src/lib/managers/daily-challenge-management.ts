@@ -0,0 +1,367 @@
+import type {
+  ClientQuestion,
+  DailyAttempt,
+  DailyAttemptAnswer,
+  DailyChallengeAnswerResultData,
+  DailyChallengeCompleteData,
+  DailyChallengeQuestionData,
+  DailyLeaderboardEntry,
+  GameQuestion,
+} from '../../types/entities';
+import {
+  CORRECT_POINT_COST,
+  DAILY_CHALLENGE_DIFFICULTY,
+  DAILY_CHALLENGE_QUESTION_COUNT,
+  DAILY_CHALLENGE_TIME_PER_QUESTION,
+  SPEED_BONUS_MAX_POINTS,
+} from '../constants/game-constants';
+import { generateQuestion } from '../game-logic/main';
+import { createQuestionRandom } from '../game-logic/random';
+import { storage } from '../storage';
+import { AppError, ErrorCode, ErrorHandler } from '../utils/error-handler';
+import { deriveDailyValue } from '../utils/security/daily-challenge-secret';
+import { sanitizeString } from '../utils/validation';
+import { gameManager } from './game-management';
+
+interface DailyChallenge {
+  date: string;
+  /** Times are filled in per attempt, see toClientQuestion */
+  questions: GameQuestion[];
+}
+
+export interface DailyAnswerOutcome {
+  result: DailyChallengeAnswerResultData;
+  complete: DailyChallengeCompleteData | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_ROW_LENGTH = 5;
+
+export const getDailyChallengeDate = (now: number = Date.now()): string =>
+  new Date(now).toISOString().slice(0, 10);
+
+const toShareCell = (answer: DailyAttemptAnswer): string => {
+  if (answer.isCorrect) {
+    return '🟩';
+  }
+  return answer.timedOut ? '⬛' : '🟥';
+};
+
+const compareAttempts = (a: DailyAttempt, b: DailyAttempt): number =>
+  b.score - a.score ||
+  a.totalTimeMs - b.totalTimeMs ||
+  (a.completedAt ?? 0) - (b.completedAt ?? 0);
+
+/**
+ * "Flag of the Day": a fixed set of questions per UTC day, generated from a
+ * seed derived from the date and a server secret so every player (and every
+ * instance) gets the same flags in the same order. Each user gets one attempt
+ * per day; attempts are always read from storage, which all instances share.
+ */
+class DailyChallengeManager {
+  private challenges = new Map<string, DailyChallenge>();
+
+  startAttempt(
+    userId: string,
+    username: string,
+    now: number = Date.now()
+  ): DailyChallengeQuestionData {
+    const date = getDailyChallengeDate(now);
+    const challenge = this.getChallenge(date);
+
+    let attempt = storage.loadDailyAttempt(date, userId);
+    // Resuming keeps the original question clock, so leaving and coming back can't buy extra time
+    if (!attempt) {
+      const created: DailyAttempt = {
+        date,
+        userId,
+        username,
+        answers: [],
+        currentQuestionIndex: 0,
+        questionStartedAt: now,
+        score: 0,
+        correctAnswers: 0,
+        totalTimeMs: 0,
+        startedAt: now,
+        completedAt: null,
+      };
+      // Another instance may have started one for this user in the meantime; theirs wins
+      attempt = storage.createDailyAttempt(created)
+        ? created
+        : (storage.loadDailyAttempt(date, userId) ?? created);
+    }
+
+    if (attempt.completedAt) {
+      throw new AppError({
+        code: ErrorCode.DAILY_CHALLENGE_COMPLETED,
+        message: "You have already played today's challenge",
+        statusCode: 409,
+        details: {
+          date,
+          score: attempt.score,
+          nextChallengeAt: Date.parse(date) + DAY_MS,
+        },
+      });
+    }
+
+    return {
+      date,
+      question: this.toClientQuestion(
+        challenge.questions[attempt.currentQuestionIndex],
+        attempt
+      ),
+      totalQuestions: challenge.questions.length,
+      score: attempt.score,
+    };
+  }
+
+  submitAnswer(
+    userId: string,
+    questionId: string,
+    answer: string,
+    now: number = Date.now()
+  ): DailyAnswerOutcome {
+    const attempt = this.findOpenAttempt(userId, now);
+    if (!attempt) {
+      throw ErrorHandler.createValidationError(
+        'No daily challenge in progress'
+      );
+    }
+
+    const challenge = this.getChallenge(attempt.date);
+    const question = challenge.questions[attempt.currentQuestionIndex];
+    if (question.id !== questionId) {
+      throw ErrorHandler.createValidationError(
+        'Answer does not match the current question',
+        {
+          expectedQuestionId: question.id,
+        }
+      );
+    }
+
+    const timeLimitMs = DAILY_CHALLENGE_TIME_PER_QUESTION * 1000;
+    const timeToAnswer = Math.max(0, now - attempt.questionStartedAt);
+    const timedOut = timeToAnswer > timeLimitMs;
+    const isCorrect = !timedOut && answer === question.correctAnswer;
+
+    const remainingRatio = Math.min(
+      1,
+      Math.max(0, 1 - timeToAnswer / timeLimitMs)
+    );
+    const pointsAwarded = isCorrect
+      ? CORRECT_POINT_COST + Math.round(SPEED_BONUS_MAX_POINTS * remainingRatio)
+      : 0;
+
+    const attemptAnswer: DailyAttemptAnswer = {
+      questionId,
+      answer: sanitizeString(answer),
+      isCorrect,
+      timedOut,
+      timeToAnswer,
+      pointsAwarded,
+    };
+
+    attempt.answers.push(attemptAnswer);
+    attempt.score += pointsAwarded;
+    attempt.correctAnswers += isCorrect ? 1 : 0;
+    attempt.totalTimeMs += Math.min(timeToAnswer, timeLimitMs);
+    attempt.currentQuestionIndex += 1;
+    attempt.questionStartedAt = now;
+
+    const isComplete =
+      attempt.currentQuestionIndex >= challenge.questions.length;
+    if (isComplete) {
+      attempt.completedAt = now;
+    }
+    storage.saveDailyAttempt(attempt);
+
+    return {
+      result: {
+        date: attempt.date,
+        questionId,
+        isCorrect,
+        timedOut,
+        correctAnswer: question.correctAnswer,
+        pointsAwarded,
+        score: attempt.score,
+        nextQuestion: isComplete
+          ? null
+          : this.toClientQuestion(
+              challenge.questions[attempt.currentQuestionIndex],
+              attempt
+            ),
+      },
+      complete: isComplete ? this.buildCompleteData(attempt) : null,
+    };
+  }
+
+  getLeaderboard(
+    date: string,
+    limit = 25
+  ): { date: string; entries: DailyLeaderboardEntry[]; total: number } {
+    const completed = this.listAttempts(date)
+      .filter((attempt) => attempt.completedAt !== null)
+      .sort(compareAttempts);
+
+    return {
+      date,
+      entries: completed.slice(0, limit).map((attempt, index) => ({
+        rank: index + 1,
+        userId: attempt.userId,
+        username: attempt.username,
+        score: attempt.score,
+        correctAnswers: attempt.correctAnswers,
+        totalTimeMs: attempt.totalTimeMs,
+        completedAt: attempt.completedAt as number,
+      })),
+      total: completed.length,
+    };
+  }
+
+  getRank(attempt: DailyAttempt): number | null {
+    if (!attempt.completedAt) {
+      return null;
+    }
+    const completed = this.listAttempts(attempt.date).filter(
+      (entry) => entry.completedAt !== null
+    );
+    return (
+      completed.filter((entry) => compareAttempts(entry, attempt) < 0).length +
+      1
+    );
+  }
+
+  /** Emoji grid players can paste without giving away the answers */
+  buildShareString(attempt: DailyAttempt): string {
+    const total = this.getChallenge(attempt.date).questions.length;
+    const cells = attempt.answers.map(toShareCell);
+
+    const rows: string[] = [];
+    for (let i = 0; i < cells.length; i += SHARE_ROW_LENGTH) {
+      rows.push(cells.slice(i, i + SHARE_ROW_LENGTH).join(''));
+    }
+
+    return [
+      `flags.games Daily ${attempt.date} ${attempt.correctAnswers}/${total}`,
+      ...rows,
+      `Score: ${attempt.score}`,
+    ].join('\n');
+  }
+
+  /** Checks today's and yesterday's challenges, regenerating them if this instance hasn't yet */
+  resolveFlagAsset(
+    flagAssetId: string,
+    now: number = Date.now()
+  ): string | null {
+    for (const date of [
+      getDailyChallengeDate(now),
+      getDailyChallengeDate(now - DAY_MS),
+    ]) {
+      const question = this.getChallenge(date).questions.find(
+        (entry) => entry.flagAssetId === flagAssetId
+      );
+      if (question) {
+        return question.country.code;
+      }
+    }
+    return null;
+  }
+
+  private buildCompleteData(attempt: DailyAttempt): DailyChallengeCompleteData {
+    return {
+      date: attempt.date,
+      score: attempt.score,
+      correctAnswers: attempt.correctAnswers,
+      totalQuestions: this.getChallenge(attempt.date).questions.length,
+      totalTimeMs: attempt.totalTimeMs,
+      rank: this.getRank(attempt),
+      share: this.buildShareString(attempt),
+    };
+  }
+
+  /** An attempt started just before midnight UTC can still be finished after it */
+  private findOpenAttempt(userId: string, now: number): DailyAttempt | null {
+    for (const date of [
+      getDailyChallengeDate(now),
+      getDailyChallengeDate(now - DAY_MS),
+    ]) {
+      const attempt = storage.loadDailyAttempt(date, userId);
+      if (attempt && !attempt.completedAt) {
+        return attempt;
+      }
+    }
+    return null;
+  }
+
+  private toClientQuestion(
+    question: GameQuestion,
+    attempt: DailyAttempt
+  ): ClientQuestion {
+    return gameManager.toClientQuestion({
+      ...question,
+      startTime: attempt.questionStartedAt,
+      endTime:
+        attempt.questionStartedAt + DAILY_CHALLENGE_TIME_PER_QUESTION * 1000,
+    });
+  }
+
+  private getChallenge(date: string): DailyChallenge {
+    const cached = this.challenges.get(date);
+    if (cached) {
+      return cached;
+    }
+
+    const seed = deriveDailyValue('daily-seed', date);
+    const usedCountries: string[] = [];
+    const questions: GameQuestion[] = [];
+
+    for (let i = 0; i < DAILY_CHALLENGE_QUESTION_COUNT; i++) {
+      const questionData = generateQuestion(
+        DAILY_CHALLENGE_DIFFICULTY,
+        usedCountries,
+        createQuestionRandom(seed, i)
+      );
+      if (!questionData) {
+        break;
+      }
+
+      usedCountries.push(questionData.currentCountry.code);
+      questions.push({
+        id: `daily-${date}-${i + 1}`,
+        index: i + 1,
+        type: questionData.questionType,
+        answerMode: 'choice',
+        country: questionData.currentCountry,
+        options: questionData.options,
+        correctAnswer: questionData.correctAnswer,
+        // Same id on every instance and after a restart, so clients can keep using it
+        flagAssetId: deriveDailyValue('daily-flag', `${date}:${i}`).slice(
+          0,
+          21
+        ),
+        startTime: 0,
+        endTime: 0,
+      });
+    }
+
+    const challenge: DailyChallenge = { date, questions };
+    this.challenges.set(date, challenge);
+    this.pruneCache(this.challenges, date);
+    return challenge;
+  }
+
+  private listAttempts(date: string): DailyAttempt[] {
+    return storage.loadDailyAttempts(date);
+  }
+
+  private pruneCache<T>(cache: Map<string, T>, latest: string): void {
+    const oldestKept = getDailyChallengeDate(Date.parse(latest) - DAY_MS);
+    for (const date of cache.keys()) {
+      if (date < oldestKept) {
+        cache.delete(date);
+      }
+    }
+  }
+}
+
+export const dailyChallengeManager = new DailyChallengeManager();
@@ -1,20 +1,40 @@
-import { generateQuestion, getDifficultySettings } from "../game-logic/main";
+import { nanoid } from "nanoid";
+import { clampQuestionCount, generateQuestion, isFlagPromptQuestion, resolveQuestionType } from "../game-logic/main";
+import { createQuestionRandom, createSeed } from "../game-logic/random";
+import { getCountryByCode } from "../game-logic/data/countries";
+import { matchTypedAnswer } from "../game-logic/answer-matching";
+import { sanitizeString } from "../utils/validation";
 import { roomsManager } from "./room-management";
 import { usersManager } from "./user-management";
-import { GameQuestion, GameStateLeaderboard, Room, GameAnswer, GameState, QuestionResultsData } from "../../types/entities";
+import {
+  ClientQuestion,
+  GameQuestion,
+  GameStateLeaderboard,
+  Room,
+  GameAnswer,
+  GameState,
+  QuestionResultsData,
+  GameStateSyncData,
+} from "../../types/entities";
 import { WS_MESSAGE_TYPES } from "../constants/ws-message-types";
-import { CORRECT_POINT_COST } from "../constants/game-constants";
+import { getGameModeHandler, type GameModeHandler } from "../game-modes";
+import { storage } from "../storage";
+import { roomBus } from "../bus";
+import { logger } from "../utils/logger";
+import { auditLog } from "../audit";
+import { metrics, questionDurationSeconds } from "../metrics";
 
 class GameManager {
   private questionTimers = new Map<string, Timer>();
   private resultTimers = new Map<string, Timer>();
 
-  private resetGameState(roomId: string): void {
+  private resetGameState(roomId: string, seed: string = createSeed()): void {
     const room = roomsManager.getRoom(roomId);
     if (!room) return;
 
     this.clearTimers(roomId);
 
+    const handler = this.getHandler(room);
     const gameState: GameState = {
       isActive: true,
       phase: "starting",
@@ -22,14 +42,23 @@ class GameManager {
       answers: [],
       answerHistory: [],
       currentQuestionIndex: 0,
-      totalQuestions: getDifficultySettings(room.settings.difficulty).count,
+      totalQuestions: clampQuestionCount(
+        room.settings.difficulty,
+        room.settings.questionCount,
+        room.settings.countryPool,
+        room.settings.questionType
+      ),
       difficulty: room.settings.difficulty,
       gameStartTime: Date.now(),
       gameEndTime: null,
       usedCountries: [],
+      seed,
+      hearts: {},
+      eliminatedPlayers: [],
       questionTimer: null,
       resultTimer: null,
       leaderboard: [],
+      ...handler.createInitialState(room),
     };
 
     roomsManager.updateGameState(roomId, gameState);
@@ -50,6 +79,9 @@ class GameManager {
     if (room.host !== userId) return { success: false, error: "Only the host can start the game" };
     if (room.gameState.isActive) return { success: false, error: "Game is already in progress" };
     if (room.members.length < 2) return { success: false, error: "At least 2 players are required to start the game" };
+    if (!(await roomBus.claimRoom(roomId))) {
+      return { success: false, error: "Room is owned by another instance" };
+    }
 
     this.resetGameState(roomId);
 
@@ -70,7 +102,9 @@ class GameManager {
 
   async nextQuestion(roomId: string): Promise<void> {
     const room = roomsManager.getRoom(roomId);
-    if (!room || !room.gameState.isActive) return;
+    if (!(room?.gameState.isActive && roomBus.isRoomOwner(roomId))) {
+      return;
+    }
 
     const { gameState } = room;
 
@@ -79,9 +113,21 @@ class GameManager {
       return;
     }
 
+    if (this.getHandler(room).isGameOver(room)) {
+      this.endGame(roomId);
+      return;
+    }
+
     this.clearTimers(roomId);
 
-    const questionData = generateQuestion(gameState.difficulty, gameState.usedCountries);
+    const questionData = generateQuestion(
+      gameState.difficulty,
+      gameState.usedCountries,
+      gameState.seed ? createQuestionRandom(gameState.seed, gameState.currentQuestionIndex) : Math.random,
+      resolveQuestionType(room.settings.questionType, gameState.currentQuestionIndex),
+      room.settings.optionCount,
+      room.settings.countryPool
+    );
 
     if (!questionData) {
       this.endGame(roomId);
@@ -91,10 +137,15 @@ class GameManager {
     gameState.usedCountries.push(questionData.currentCountry.code);
 
     const question: GameQuestion = {
+      id: nanoid(),
       index: gameState.currentQuestionIndex + 1,
+      type: questionData.questionType,
+      answerMode:
+        room.settings.answerMode === "typing" && isFlagPromptQuestion(questionData.questionType) ? "typing" : "choice",
       country: questionData.currentCountry,
       options: questionData.options,
-      correctAnswer: questionData.currentCountry.code,
+      correctAnswer: questionData.correctAnswer,
+      flagAssetId: isFlagPromptQuestion(questionData.questionType) ? nanoid() : null,
       startTime: Date.now(),
       endTime: Date.now() + room.settings.timePerQuestion * 1000,
     };
@@ -109,7 +160,7 @@ class GameManager {
     this.broadcastToRoom(roomId, {
       type: WS_MESSAGE_TYPES.NEW_QUESTION,
       data: {
-        question: question,
+        question: this.toClientQuestion(question),
         totalQuestions: gameState.totalQuestions,
       },
     });
@@ -121,34 +172,61 @@ class GameManager {
     this.questionTimers.set(roomId, timer);
   }
 
-  async submitAnswer(roomId: string, userId: string, answer: string): Promise<void> {
+  async submitAnswer(
+    roomId: string,
+    userId: string,
+    answer: string,
+    questionId: string
+  ): Promise<{ success: boolean; error?: string }> {
     const room = roomsManager.getRoom(roomId);
     const user = usersManager.getUser(userId);
 
-    if (!room || !user || !room.gameState.currentQuestion) return;
-    if (room.gameState.phase !== "question") return;
+    if (!room) {
+      return { success: false, error: "Room not found" };
+    }
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+    if (!room.gameState.currentQuestion || room.gameState.phase !== "question") {
+      return { success: false, error: "No question is currently open" };
+    }
+    if (room.gameState.currentQuestion.id !== questionId) {
+      return { success: false, error: "Answer does not match the current question" };
+    }
+
+    const handler = this.getHandler(room);
+    if (!handler.canSubmitAnswer(room, userId)) {
+      return { success: false, error: "You cannot answer this question" };
+    }
 
     const existingAnswer = room.gameState.answers.find((answer) => answer.userId === userId);
-    if (existingAnswer) return;
+    if (existingAnswer) {
+      return { success: false, error: "Answer already submitted" };
+    }
 
     const currentTime = Date.now();
     const question = room.gameState.currentQuestion;
     const timeToAnswer = currentTime - question.startTime;
-    const isCorrect = answer === question.correctAnswer;
+    const typedMatch = question.answerMode === "typing" ? this.checkTypedAnswer(question, answer) : null;
+    const isCorrect = typedMatch ? typedMatch.isCorrect : answer === question.correctAnswer;
 
-    let pointsAwarded = 0;
-    if (isCorrect) {
-      pointsAwarded = CORRECT_POINT_COST;
-    }
+    const pointsBreakdown = handler.scoreAnswer({ room, userId, timeToAnswer, isCorrect });
+    const pointsAwarded = pointsBreakdown.base + pointsBreakdown.speedBonus + pointsBreakdown.rankBonus;
 
     const gameAnswer: GameAnswer = {
       userId,
       username: user.username,
-      answer,
+      // Other players see this in the results, so only the raw text is used for matching
+      answer: sanitizeString(answer),
+      questionIndex: question.index,
       timeToAnswer,
       isCorrect,
       pointsAwarded,
+      pointsBreakdown,
       timestamp: currentTime,
+      ...(typedMatch?.isNearMiss
+        ? { nearMiss: { closestMatch: typedMatch.closestMatch, distance: typedMatch.distance } }
+        : {}),
     };
 
     const updatedAnswers = [...room.gameState.answers, gameAnswer];
@@ -160,6 +238,7 @@ class GameManager {
       leaderboard: updatedLeaderboard,
     });
 
+    const totalPlayers = handler.getActivePlayers(room).length;
     const userScore = updatedHistory.filter((a) => a.userId === userId).reduce((sum, a) => sum + a.pointsAwarded, 0);
 
     this.broadcastToRoom(roomId, {
@@ -169,22 +248,158 @@ class GameManager {
         username: user.username,
         hasAnswered: true,
         totalAnswers: updatedAnswers.length,
-        totalPlayers: room.members.length,
+        totalPlayers,
         pointsAwarded,
         score: userScore,
       },
     });
 
-    if (updatedAnswers.length === room.members.length) {
+    if (updatedAnswers.length >= totalPlayers) {
       this.endQuestion(roomId);
     }
+
+    return { success: true };
+  }
+
+  toClientQuestion(question: GameQuestion): ClientQuestion {
+    const showsFlag = isFlagPromptQuestion(question.type);
+    let options: ClientQuestion["options"] = showsFlag ? question.options : question.options.map(({ code }) => ({ code }));
+    if (question.answerMode === "typing") {
+      options = [];
+    }
+
+    let prompt: string | null = null;
+    if (question.type === "name-to-flag") {
+      prompt = question.country.name;
+    } else if (question.type === "capital-to-flag") {
+      prompt = getCountryByCode(question.country.code)?.capital ?? null;
+    }
+
+    return {
+      id: question.id,
+      index: question.index,
+      type: question.type,
+      answerMode: question.answerMode,
+      flagAssetId: question.flagAssetId,
+      prompt,
+      options,
+      startTime: question.startTime,
+      endTime: question.endTime,
+    };
+  }
+
+  /**
+   * Room payload safe to send to players. While a question is open the
+   * current question and its answers are withheld so the answer can't be read,
+   * and the seed stays hidden until the game is over.
+   */
+  toClientRoom(room: Room): Room {
+    const { gameState } = room;
+    if (!gameState.isActive) {
+      return room;
+    }
+
+    return {
+      ...room,
+      gameState: {
+        ...gameState,
+        seed: null,
+        ...(gameState.phase === "question" ? { currentQuestion: null, answers: [] } : {}),
+      },
+    };
+  }
+
+  /**
+   * Snapshot of the running game from one player's point of view, so a
+   * reconnecting client can render the current screen without waiting for
+   * the next broadcast.
+   */
+  getGameStateSync(roomId: string, userId: string): GameStateSyncData | null {
+    const room = roomsManager.getRoom(roomId);
+    if (!room) {
+      return null;
+    }
+
+    const { gameState } = room;
+    const { currentQuestion, phase } = gameState;
+    const handler = this.getHandler(room);
+
+    const myAnswer = gameState.answers.find((answer) => answer.userId === userId) || null;
+    const leaderboard = this.computeLeaderboardFromHistory(room);
+    const score = leaderboard.find((entry) => entry.userId === userId)?.score ?? 0;
+    const isSpectator = room.spectators.some((spectator) => spectator.id === userId);
+
+    let deadline: number | null = null;
+    if (phase === "question" && currentQuestion) {
+      deadline = currentQuestion.endTime;
+    } else if (phase === "results" && gameState.resultTimer) {
+      deadline = gameState.resultTimer.endTime;
+    }
+
+    return {
+      roomId,
+      phase,
+      isActive: gameState.isActive,
+      currentQuestion: currentQuestion ? this.toClientQuestion(currentQuestion) : null,
+      currentQuestionIndex: gameState.currentQuestionIndex,
+      totalQuestions: gameState.totalQuestions,
+      serverTime: Date.now(),
+      deadline,
+      resultTimer: phase === "results" ? gameState.resultTimer : null,
+      results:
+        phase === "results" && currentQuestion && gameState.resultTimer
+          ? this.generateResultsData(room, leaderboard)
+          : null,
+      myAnswer,
+      isSpectator,
+      score,
+      hearts: gameState.hearts[userId] ?? null,
+      // Spectators never played, so they aren't out of the game either
+      isEliminated: !(isSpectator || handler.getActivePlayers(room).some((member) => member.id === userId)),
+      leaderboard,
+    };
+  }
+
+  resolveFlagAsset(flagAssetId: string): string | null {
+    for (const room of roomsManager.rooms.values()) {
+      const question = room.gameState.currentQuestion;
+      if (question && question.flagAssetId === flagAssetId) {
+        return question.country.code;
+      }
+    }
+    return null;
+  }
+
+  private getHandler(room: Room): GameModeHandler {
+    return getGameModeHandler(room.settings.gameMode);
+  }
+
+  /** Typed answers are checked against the label of the correct option, e.g. the country name or capital */
+  private checkTypedAnswer(question: GameQuestion, answer: string) {
+    const correctLabel =
+      question.options.find((option) => option.code === question.correctAnswer)?.name ?? question.correctAnswer;
+    return matchTypedAnswer(answer, question.type, correctLabel, question.country.code);
   }
 
   private endQuestion(roomId: string): void {
     const room = roomsManager.getRoom(roomId);
-    if (!room || !room.gameState.currentQuestion) return;
+    if (!(room?.gameState.currentQuestion && roomBus.isRoomOwner(roomId))) {
+      return;
+    }
 
     this.clearTimers(roomId);
+    questionDurationSeconds.observe(
+      { mode: room.settings.gameMode },
+      (Date.now() - room.gameState.currentQuestion.startTime) / 1000
+    );
+
+    const { stateUpdates, messages = [] } = this.getHandler(room).onQuestionEnd(room);
+    if (stateUpdates) {
+      roomsManager.updateGameState(roomId, stateUpdates);
+    }
+    for (const message of messages) {
+      this.broadcastToRoom(roomId, message);
+    }
 
     const resultDurationSec = 3;
     const startTime = Date.now();
@@ -194,7 +409,7 @@ class GameManager {
       endTime: startTime + resultDurationSec * 1000,
     };
 
-    const cachedLeaderboard = this.computeLeaderboardFromHistory(room);
+    const cachedLeaderboard = this.computeLeaderboardFromHistory(roomsManager.getRoom(roomId) || room);
     const updatedRoom = roomsManager.updateGameState(roomId, {
       phase: "results",
       leaderboard: cachedLeaderboard,
@@ -241,10 +456,26 @@ class GameManager {
       }),
     });
 
+    const finishedRoom = updatedRoom || room;
+    storage.saveFinishedGame({
+      id: nanoid(),
+      roomId,
+      inviteCode: finishedRoom.inviteCode,
+      gameMode: finishedRoom.settings.gameMode,
+      difficulty: finishedRoom.gameState.difficulty,
+      totalQuestions: finishedRoom.gameState.totalQuestions,
+      startedAt: finishedRoom.gameState.gameStartTime,
+      endedAt: endTime,
+      leaderboard: finalLeaderboard,
+    });
+
+    roomBus.releaseRoom(roomId).catch((error) => logger.error("Failed to release room ownership", error));
+
     this.broadcastToRoom(roomId, {
       type: WS_MESSAGE_TYPES.GAME_ENDED,
       data: {
         leaderboard: finalLeaderboard,
+        answers: (updatedRoom || room).gameState.answerHistory,
         gameStats: this.generateGameStats(updatedRoom || room),
       },
     });
@@ -255,6 +486,7 @@ class GameManager {
     const answers = room.gameState.answers;
 
     return {
+      questionId: question.id,
       correctAnswer: question.correctAnswer,
       correctCountry: question.country,
       playerAnswers: answers,
@@ -343,6 +575,46 @@ class GameManager {
     }
   }
 
+  /**
+   * Re-arms question/result timers for games restored from storage, for the rooms this
+   * instance can claim. Deadlines that passed while the server was down fire immediately.
+   */
+  async resumeTimers(): Promise<number> {
+    let resumed = 0;
+
+    for (const roomId of this.getActiveGames()) {
+      // biome-ignore lint/nursery/noAwaitInLoop: claims are few and only made at startup
+      if (!(await roomBus.claimRoom(roomId))) {
+        continue;
+      }
+
+      const room = roomsManager.getRoom(roomId);
+      if (!room) {
+        continue;
+      }
+
+      const { gameState } = room;
+      const now = Date.now();
+
+      if (gameState.phase === "starting") {
+        const delay = Math.max(0, (gameState.gameStartTime ?? now) + 5000 - now);
+        this.questionTimers.set(roomId, setTimeout(() => this.nextQuestion(roomId), delay));
+      } else if (gameState.phase === "question" && gameState.currentQuestion) {
+        const delay = Math.max(0, gameState.currentQuestion.endTime - now);
+        this.questionTimers.set(roomId, setTimeout(() => this.endQuestion(roomId), delay));
+      } else if (gameState.phase === "results") {
+        const delay = Math.max(0, (gameState.resultTimer?.endTime ?? now) - now);
+        this.resultTimers.set(roomId, setTimeout(() => this.nextQuestion(roomId), delay));
+      } else {
+        continue;
+      }
+
+      resumed++;
+    }
+
+    return resumed;
+  }
+
   getActiveGames(): string[] {
     return Array.from(roomsManager.rooms.values())
       .filter((room) => room.gameState.isActive)
@@ -359,6 +631,9 @@ class GameManager {
     if (room.gameState.isActive && room.gameState.phase !== "finished") {
       return { success: false, error: "A game is currently in progress. Stop it first to restart." };
     }
+    if (!(await roomBus.claimRoom(roomId))) {
+      return { success: false, error: "Room is owned by another instance" };
+    }
 
     this.resetGameState(roomId);
 
@@ -374,10 +649,18 @@ class GameManager {
     return { success: true };
   }
 
-  stopGame(roomId: string): boolean {
+  stopGame(roomId: string, actor = "system"): boolean {
     const room = roomsManager.getRoom(roomId);
     if (!room) return false;
 
+    auditLog.record({
+      actor,
+      action: "game.stop",
+      target: roomId,
+      roomId,
+      details: { phase: room.gameState.phase, questionIndex: room.gameState.currentQuestionIndex },
+    });
+
     this.clearTimers(roomId);
 
     roomsManager.updateGameState(roomId, {
@@ -387,6 +670,8 @@ class GameManager {
       gameEndTime: Date.now(),
     });
 
+    roomBus.releaseRoom(roomId).catch((error) => logger.error("Failed to release room ownership", error));
+
     this.broadcastToRoom(roomId, {
       type: WS_MESSAGE_TYPES.GAME_STOPPED,
       data: { timestamp: Date.now() },
@@ -402,3 +687,17 @@ class GameManager {
 }
 
 export const gameManager = new GameManager();
+
+metrics.gauge({
+  name: "flags_active_games",
+  help: "Games in progress, by game mode and difficulty",
+  labelNames: ["mode", "difficulty"],
+  collect: (gauge) => {
+    for (const room of roomsManager.rooms.values()) {
+      if (!room.gameState.isActive) {
+        continue;
+      }
+      gauge.inc({ mode: room.settings.gameMode, difficulty: room.settings.difficulty });
+    }
+  },
+});
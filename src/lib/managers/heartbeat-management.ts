@@ -1,6 +1,7 @@
 import { CustomWebSocket } from "../../types/entities";
-import { logger } from "../utils/logger";
+import { logger, type Logger } from "../utils/logger";
 import { WS_MESSAGE_TYPES } from "../constants/ws-message-types";
+import { heartbeatRttSeconds } from "../metrics";
 
 interface HeartbeatConfig {
   interval: number;
@@ -15,6 +16,7 @@ interface HeartbeatState {
   missedCount: number;
   lastPing: number;
   lastPong: number;
+  log: Logger;
 }
 
 export class HeartbeatManager {
@@ -52,13 +54,14 @@ export class HeartbeatManager {
       interval: setInterval(() => this.sendHeartbeat(userId, ws), this.config.interval),
       missedCount: 0,
       lastPing: Date.now(),
-      lastPong: 0
+      lastPong: 0,
+      log: logger.child({ userId, connectionId: ws.data?.connectionId })
     };
 
     this.heartbeats.set(userId, state);
     
     if (this.config.enableLogging) {
-      logger.debug(`Started heartbeat for user ${userId}`);
+      state.log.debug('Started heartbeat');
     }
   }
 
@@ -74,7 +77,7 @@ export class HeartbeatManager {
     this.heartbeats.delete(userId);
     
     if (this.config.enableLogging) {
-      logger.debug(`Stopped heartbeat for user ${userId}`);
+      state.log.debug('Stopped heartbeat');
     }
   }
 
@@ -82,18 +85,20 @@ export class HeartbeatManager {
     const state = this.heartbeats.get(userId);
     if (!state) return;
 
+    const now = Date.now();
     if (state.timeout) {
       clearTimeout(state.timeout);
       state.timeout = undefined;
+      heartbeatRttSeconds.observe(undefined, (now - state.lastPing) / 1000);
     }
 
     state.missedCount = 0;
-    state.lastPong = Date.now();
+    state.lastPong = now;
 
     this.onUserActivity(userId);
 
     if (this.config.enableLogging) {
-      logger.debug(`Received heartbeat response from user ${userId}`);
+      state.log.debug('Received heartbeat response');
     }
   }
 
@@ -131,7 +136,7 @@ export class HeartbeatManager {
     state.missedCount++;
     
     if (this.config.enableLogging) {
-      logger.warn(`Heartbeat timeout for user ${userId} (missed: ${state.missedCount}/${this.config.maxMissed})`);
+      state.log.warn(`Heartbeat timeout (missed: ${state.missedCount}/${this.config.maxMissed})`);
     }
 
     if (state.missedCount >= this.config.maxMissed) {
@@ -141,7 +146,8 @@ export class HeartbeatManager {
 
   private handleDeadConnection(userId: string, reason: string): void {
     if (this.config.enableLogging) {
-      logger.warn(`Connection dead for user ${userId}: ${reason}`);
+      const log = this.heartbeats.get(userId)?.log ?? logger.child({ userId });
+      log.warn(`Connection dead: ${reason}`);
     }
 
     this.stopHeartbeat(userId);
@@ -1,7 +1,12 @@
 import { nanoid } from "nanoid";
 import { Room, User, GameState, RoomSettings } from "../../types/entities";
-import { getDifficultySettings } from "../game-logic/main";
-import { MAX_ROOM_LIFETIME_MS } from "../constants/game-constants";
+import { clampQuestionCount } from "../game-logic/main";
+import { MAX_ROOM_LIFETIME_MS, MAX_SPECTATORS_PER_ROOM } from "../constants/game-constants";
+import { storage } from "../storage";
+import { roomBus } from "../bus";
+import { logger } from "../utils/logger";
+
+const inviteLocationKey = (inviteCode: string) => `invite:${inviteCode}`;
 
 class RoomManager {
   public rooms = new Map<string, Room>();
@@ -12,7 +17,12 @@ class RoomManager {
     host: User,
     settings: RoomSettings,
   ): Room {
-    const difficultySettings = getDifficultySettings(settings?.difficulty);
+    const questionCount = clampQuestionCount(
+      settings?.difficulty,
+      settings?.questionCount,
+      settings?.countryPool,
+      settings?.questionType
+    );
 
     const gameState: GameState = {
       isActive: false,
@@ -21,11 +31,14 @@ class RoomManager {
       answers: [],
       answerHistory: [],
       currentQuestionIndex: 0,
-      totalQuestions: difficultySettings.count,
+      totalQuestions: questionCount,
       difficulty: settings?.difficulty,
       gameStartTime: null,
       gameEndTime: null,
       usedCountries: [],
+      seed: null,
+      hearts: {},
+      eliminatedPlayers: [],
       questionTimer: null,
       resultTimer: null,
       leaderboard: [],
@@ -38,21 +51,39 @@ class RoomManager {
       inviteCode: nanoid(6).toUpperCase(),
       gameState,
       members: [host],
+      spectators: [],
       kickedUsers: [],
       createdAt: new Date().toISOString(),
       settings: {
-        ...{
-          questionCount: difficultySettings.count,
-          //allowSpectators: true,
-        },
+        allowSpectators: true,
         ...settings,
+        questionCount,
       },
     };
 
-    this.rooms.set(roomId, room);
+    this.set(roomId, room);
+    this.publishInviteLocation(room.inviteCode, MAX_ROOM_LIFETIME_MS);
     return room;
   }
 
+  /** Restores rooms persisted by a previous process, dropping any past their lifetime */
+  rehydrate(ttlMs: number = MAX_ROOM_LIFETIME_MS): Room[] {
+    const cutoffTime = Date.now() - ttlMs;
+    const restored: Room[] = [];
+
+    for (const room of storage.loadRooms()) {
+      if (new Date(room.createdAt).getTime() < cutoffTime) {
+        storage.deleteRoom(room.id);
+        continue;
+      }
+      this.rooms.set(room.id, room);
+      this.publishInviteLocation(room.inviteCode, new Date(room.createdAt).getTime() - cutoffTime);
+      restored.push(room);
+    }
+
+    return restored;
+  }
+
   getRoom(roomId: string): Room | null {
     return this.get(roomId) || null;
   }
@@ -67,16 +98,24 @@ class RoomManager {
     );
   }
 
+  /** Instance holding the room with this invite code, which may be another one than this */
+  locateInviteCode(inviteCode: string): Promise<string | null> {
+    return roomBus.locate(inviteLocationKey(inviteCode));
+  }
+
   has(roomId: string): boolean {
     return this.rooms.has(roomId);
   }
 
   set(roomId: string, room: Room): void {
     this.rooms.set(roomId, room);
+    storage.saveRoom(room);
   }
 
   delete(roomId: string): boolean {
     this.cancelScheduledDeletion(roomId);
+    this.forgetInviteCode(roomId);
+    storage.deleteRoom(roomId);
     return this.rooms.delete(roomId);
   }
 
@@ -84,7 +123,9 @@ class RoomManager {
     this.cancelScheduledDeletion(roomId);
 
     const timeoutId = setTimeout(() => {
+      this.forgetInviteCode(roomId);
       this.rooms.delete(roomId);
+      storage.deleteRoom(roomId);
       this.scheduledDeletions.delete(roomId);
     }, delayMs);
 
@@ -99,6 +140,22 @@ class RoomManager {
     }
   }
 
+  /** Other instances find rooms by invite code through the bus; stop pointing them here */
+  private publishInviteLocation(inviteCode: string, ttlMs: number): void {
+    roomBus
+      .setLocation(inviteLocationKey(inviteCode), ttlMs)
+      .catch((error) => logger.error("Failed to publish invite code location", error));
+  }
+
+  private forgetInviteCode(roomId: string): void {
+    const room = this.get(roomId);
+    if (room) {
+      roomBus
+        .clearLocation(inviteLocationKey(room.inviteCode))
+        .catch((error) => logger.error("Failed to clear invite code location", error));
+    }
+  }
+
   isScheduledForDeletion(roomId: string): boolean {
     return this.scheduledDeletions.has(roomId);
   }
@@ -112,7 +169,7 @@ class RoomManager {
     if (!room) return null;
 
     const updatedRoom = { ...room, ...updates };
-    this.set(roomId, { ...room, ...updates });
+    this.set(roomId, updatedRoom);
     return updatedRoom;
   }
 
@@ -137,6 +194,58 @@ class RoomManager {
     return this.update(roomId, { members: updatedMembers });
   }
 
+  addSpectatorToRoom(roomId: string, user: User): Room | null {
+    const room = this.get(roomId);
+    if (!room) {
+      return null;
+    }
+
+    if (room.settings.allowSpectators === false) {
+      return null;
+    }
+
+    if (room.spectators.length >= MAX_SPECTATORS_PER_ROOM) {
+      return null;
+    }
+
+    if (room.kickedUsers.includes(user.id)) {
+      return null;
+    }
+
+    if (this.isSpectator(roomId, user.id)) {
+      return room;
+    }
+
+    const updatedSpectators = [...room.spectators, user];
+    return this.update(roomId, { spectators: updatedSpectators });
+  }
+
+  isSpectator(roomId: string, userId: string): boolean {
+    const room = this.get(roomId);
+    return !!room && room.spectators.some((spectator) => spectator.id === userId);
+  }
+
+  promoteSpectator(roomId: string, userId: string): Room | null {
+    const room = this.get(roomId);
+    if (!room) {
+      return null;
+    }
+
+    const spectator = room.spectators.find((s) => s.id === userId);
+    if (!spectator) {
+      return null;
+    }
+
+    if (room.members.length >= room.settings.maxRoomSize) {
+      return null;
+    }
+
+    return this.update(roomId, {
+      members: [...room.members, spectator],
+      spectators: room.spectators.filter((s) => s.id !== userId),
+    });
+  }
+
   removeUserFromRoom(roomId: string, userId: string): Room | null {
     const room = this.get(roomId);
     if (!room) return null;
@@ -144,8 +253,33 @@ class RoomManager {
     const updatedMembers = room.members.filter(
       (member) => member.id !== userId
     );
+    const updatedSpectators = room.spectators.filter(
+      (spectator) => spectator.id !== userId
+    );
 
-    return this.update(roomId, { members: updatedMembers });
+    return this.update(roomId, {
+      members: updatedMembers,
+      spectators: updatedSpectators,
+    });
+  }
+
+  updateMember(roomId: string, userId: string, updates: Partial<User>): Room | null {
+    const room = this.get(roomId);
+    if (!room) {
+      return null;
+    }
+
+    const updatedMembers = room.members.map((member) =>
+      member.id === userId ? { ...member, ...updates } : member
+    );
+    const updatedSpectators = room.spectators.map((spectator) =>
+      spectator.id === userId ? { ...spectator, ...updates } : spectator
+    );
+
+    return this.update(roomId, {
+      members: updatedMembers,
+      spectators: updatedSpectators,
+    });
   }
 
   kickUserFromRoom(roomId: string, userId: string): Room | null {
@@ -155,11 +289,15 @@ class RoomManager {
     const updatedMembers = room.members.filter(
       (member) => member.id !== userId
     );
+    const updatedSpectators = room.spectators.filter(
+      (spectator) => spectator.id !== userId
+    );
 
     const updatedKickedUsers = Array.from(new Set([...room.kickedUsers, userId]));
 
     return this.update(roomId, {
       members: updatedMembers,
+      spectators: updatedSpectators,
       kickedUsers: updatedKickedUsers,
     });
   }
@@ -1,5 +1,7 @@
-import { CustomWebSocket, User } from "../../types/entities";
+import { Ban, CustomWebSocket, User } from "../../types/entities";
 import { roomsManager } from "./room-management";
+import { bansManager } from "./ban-management";
+import { storage } from "../storage";
 
 interface CreateUserParams {
   id: string;
@@ -26,10 +28,26 @@ class UserManager {
       avatarId: params.avatarId,
     };
 
-    this.users.set(user.id, user);
+    this.setUser(user.id, user);
     return user;
   }
 
+  /** Restores users persisted by a previous process whose room survived rehydration */
+  rehydrate(): User[] {
+    const restored: User[] = [];
+
+    for (const user of storage.loadUsers()) {
+      if (user.roomId && !roomsManager.has(user.roomId)) {
+        storage.deleteUser(user.id);
+        continue;
+      }
+      this.users.set(user.id, user);
+      restored.push(user);
+    }
+
+    return restored;
+  }
+
   getUser(userId: string): User | undefined {
     return this.users.get(userId);
   }
@@ -40,10 +58,12 @@ class UserManager {
 
   setUser(userId: string, user: User): void {
     this.users.set(userId, user);
+    storage.saveUser(user);
   }
 
   deleteUser(userId: string): boolean {
     this.userConnections.delete(userId);
+    storage.deleteUser(userId);
     return this.users.delete(userId);
   }
 
@@ -100,13 +120,10 @@ class UserManager {
     }
   }
 
-  banUser(userId: string, reason?: string): boolean {
-    const user = this.getUser(userId);
-    if (!user) return false;
-
-    // TODO: Store banned users
+  banUser(userId: string, reason = "No reason given", issuedBy = "system", durationMs?: number): Ban {
+    const ban = bansManager.createBan({ type: "user", target: userId, reason, issuedBy, durationMs });
     this.kickUser(userId);
-    return true;
+    return ban;
   }
 
   isUserAdmin(userId: string): boolean {
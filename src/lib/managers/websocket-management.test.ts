@@ -0,0 +1,247 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import type { CustomWebSocket, WebSocketData } from '../../types/entities';
+import { MAX_SPECTATORS_PER_ROOM } from '../constants/game-constants';
+import { WS_MESSAGE_TYPES } from '../constants/ws-message-types';
+import { ErrorCode } from '../utils/error-handler';
+import { UNKNOWN_CLIENT_IP } from '../utils/security/network';
+import { bansManager } from './ban-management';
+import { webSocketManager } from './websocket-management';
+
+interface FakeSocket {
+  ws: CustomWebSocket;
+  // biome-ignore lint/suspicious/noExplicitAny: payloads differ per message type; tests read what they expect
+  sent: { type: string; data: any }[];
+}
+
+const sockets: FakeSocket[] = [];
+
+/** In-memory stand-in for a Bun socket; each one gets its own IP so per-IP limits don't interfere */
+const connect = (ipAddress?: string): FakeSocket => {
+  const index = sockets.length;
+  const sent: FakeSocket['sent'] = [];
+  const data: WebSocketData = {
+    userId: crypto.randomUUID(),
+    connectionId: `test-${index}`,
+    roomId: null,
+    isAdmin: false,
+    authenticated: true,
+    ipAddress:
+      ipAddress ?? `10.0.${Math.floor(index / 250)}.${(index % 250) + 1}`,
+  };
+  const ws = {
+    data,
+    readyState: WebSocket.OPEN,
+    send: (message: string) => {
+      sent.push(JSON.parse(message));
+      return message.length;
+    },
+    close: () => {
+      // Nothing to release; handleClose is called explicitly
+    },
+    getBufferedAmount: () => 0,
+  } as unknown as CustomWebSocket;
+
+  webSocketManager.handleOpen(ws);
+  const socket = { ws, sent };
+  sockets.push(socket);
+  return socket;
+};
+
+const send = (socket: FakeSocket, type: string, data: unknown) =>
+  webSocketManager.handleMessage(socket.ws, JSON.stringify({ type, data }));
+
+const lastMessage = (socket: FakeSocket) => {
+  const message = socket.sent.at(-1);
+  if (!message) {
+    throw new Error('Nothing was sent to this socket');
+  }
+  return message;
+};
+
+/** One after another, as a real socket would deliver them */
+const sendRepeatedly = async (
+  socket: FakeSocket,
+  type: string,
+  times: number
+) => {
+  for (let i = 0; i < times; i++) {
+    // biome-ignore lint/nursery/noAwaitInLoop: each message is handled before the next arrives
+    await send(socket, type, {});
+  }
+};
+
+afterAll(() => {
+  for (const { ws } of sockets) {
+    webSocketManager.handleClose(ws);
+  }
+});
+
+describe('joining as a spectator', () => {
+  test('rejects spectators past the limit with ROOM_FULL', async () => {
+    const host = connect();
+    await send(host, WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'host',
+      settings: { difficulty: 'easy', maxRoomSize: 2, timePerQuestion: 10 },
+    });
+    const created = lastMessage(host);
+    expect(created.type).toBe(WS_MESSAGE_TYPES.CREATE_ROOM_SUCCESS);
+    const { inviteCode } = created.data.room;
+
+    for (let i = 0; i < MAX_SPECTATORS_PER_ROOM; i++) {
+      const spectator = connect();
+      // biome-ignore lint/nursery/noAwaitInLoop: spectators join one at a time to fill the slots in order
+      await send(spectator, WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR, {
+        inviteCode,
+        username: `watcher${i}`,
+      });
+      expect(lastMessage(spectator).type).toBe(
+        WS_MESSAGE_TYPES.JOIN_ROOM_SUCCESS
+      );
+    }
+
+    const extra = connect();
+    await send(extra, WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR, {
+      inviteCode,
+      username: 'latecomer',
+    });
+    const rejection = lastMessage(extra);
+    expect(rejection.type).toBe(WS_MESSAGE_TYPES.ERROR);
+    expect(rejection.data.code).toBe(ErrorCode.ROOM_FULL);
+    expect(rejection.data.message).toBe('Spectator slots are full');
+    expect(extra.ws.data.roomId).toBeNull();
+  });
+
+  test('syncs a game in progress as a spectator, not an eliminated player', async () => {
+    const host = connect();
+    await send(host, WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'host',
+      settings: { difficulty: 'easy', maxRoomSize: 2, timePerQuestion: 10 },
+    });
+    const { inviteCode } = lastMessage(host).data.room;
+    const player = connect();
+    await send(player, WS_MESSAGE_TYPES.JOIN_ROOM, {
+      inviteCode,
+      username: 'player',
+    });
+    await send(host, WS_MESSAGE_TYPES.START_GAME, {});
+
+    const spectator = connect();
+    await send(spectator, WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR, {
+      inviteCode,
+      username: 'watcher',
+    });
+    const sync = spectator.sent.find(
+      (message) => message.type === WS_MESSAGE_TYPES.GAME_STATE_SYNC
+    );
+    expect(sync?.data).toMatchObject({
+      isActive: true,
+      isSpectator: true,
+      isEliminated: false,
+    });
+
+    await send(player, WS_MESSAGE_TYPES.LEAVE_ROOM, {});
+    await send(host, WS_MESSAGE_TYPES.LEAVE_ROOM, {});
+  });
+});
+
+describe('when the last player leaves', () => {
+  test('sends spectators back to the lobby before deleting the room', async () => {
+    const host = connect();
+    await send(host, WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'host',
+      settings: { difficulty: 'easy', maxRoomSize: 2, timePerQuestion: 10 },
+    });
+    const { inviteCode } = lastMessage(host).data.room;
+
+    const spectator = connect();
+    await send(spectator, WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR, {
+      inviteCode,
+      username: 'watcher',
+    });
+    expect(lastMessage(spectator).type).toBe(
+      WS_MESSAGE_TYPES.JOIN_ROOM_SUCCESS
+    );
+
+    await send(host, WS_MESSAGE_TYPES.LEAVE_ROOM, {});
+    expect(lastMessage(spectator).type).toBe(WS_MESSAGE_TYPES.ROOM_CLOSED);
+    expect(spectator.ws.data.roomId).toBeNull();
+
+    await send(spectator, WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'watcher',
+      settings: { difficulty: 'easy', maxRoomSize: 2, timePerQuestion: 10 },
+    });
+    expect(lastMessage(spectator).type).toBe(
+      WS_MESSAGE_TYPES.CREATE_ROOM_SUCCESS
+    );
+  });
+});
+
+describe('updating room settings', () => {
+  test('changes only the settings that were sent', async () => {
+    const host = connect();
+    await send(host, WS_MESSAGE_TYPES.CREATE_ROOM, {
+      username: 'host',
+      settings: {
+        difficulty: 'easy',
+        maxRoomSize: 3,
+        timePerQuestion: 20,
+        questionCount: 20,
+        gameMode: 'speed',
+        questionType: 'name-to-flag',
+        answerMode: 'typing',
+      },
+    });
+    expect(lastMessage(host).type).toBe(WS_MESSAGE_TYPES.CREATE_ROOM_SUCCESS);
+
+    await send(host, WS_MESSAGE_TYPES.UPDATE_ROOM_SETTINGS, {
+      settings: { difficulty: 'medium' },
+    });
+    const updated = lastMessage(host);
+    expect(updated.type).toBe(WS_MESSAGE_TYPES.SETTINGS_UPDATED);
+    expect(updated.data.settings).toMatchObject({
+      difficulty: 'medium',
+      maxRoomSize: 3,
+      timePerQuestion: 20,
+      questionCount: 20,
+      gameMode: 'speed',
+      questionType: 'name-to-flag',
+      answerMode: 'typing',
+    });
+  });
+});
+
+describe('rate limit escalation', () => {
+  test('blocks the account, not the shared placeholder, when the IP is unknown', async () => {
+    const offender = connect(UNKNOWN_CLIENT_IP);
+    const bystander = connect(UNKNOWN_CLIENT_IP);
+
+    // UPDATE_PROFILE allows 10 a minute, and the 11th rejection after that escalates
+    await sendRepeatedly(offender, WS_MESSAGE_TYPES.UPDATE_PROFILE, 21);
+
+    const offenderId = offender.ws.data.userId as string;
+    expect(bansManager.findUserBan(offenderId)).not.toBeNull();
+    expect(bansManager.findIPBan(UNKNOWN_CLIENT_IP)).toBeNull();
+    expect(
+      bansManager.isBanned(bystander.ws.data.userId, UNKNOWN_CLIENT_IP)
+    ).toBeNull();
+  });
+
+  test('blocks the account when the IP is private, as behind an unlisted proxy', async () => {
+    const offender = connect('10.20.30.40');
+
+    await sendRepeatedly(offender, WS_MESSAGE_TYPES.UPDATE_PROFILE, 21);
+
+    expect(
+      bansManager.findUserBan(offender.ws.data.userId as string)
+    ).not.toBeNull();
+    expect(bansManager.findIPBan('10.20.30.40')).toBeNull();
+  });
+
+  test('blocks a public IP', async () => {
+    const offender = connect('203.0.113.7');
+
+    await sendRepeatedly(offender, WS_MESSAGE_TYPES.UPDATE_PROFILE, 21);
+
+    expect(bansManager.findIPBan('203.0.113.7')).not.toBeNull();
+  });
+});
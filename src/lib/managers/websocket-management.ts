@@ -1,9 +1,18 @@
 import { ServerWebSocket } from "bun";
 import { nanoid } from "nanoid";
 
-import { WebSocketData, CustomWebSocket } from "../../types/entities";
+import { Ban, WebSocketData, CustomWebSocket } from "../../types/entities";
 import { WebSocketMessageSchema, type WebSocketMessage } from "../schemas";
-import { type CreateRoomData, type JoinRoomData, type UpdateSettingsData, type KickUserData, Room } from "../schemas/websockets";
+import {
+  type CreateRoomData,
+  type JoinRoomData,
+  type UpdateSettingsData,
+  type KickUserData,
+  type PromoteSpectatorData,
+  type DailyChallengeStartData,
+  type DailyChallengeAnswerData,
+  Room,
+} from "../schemas/websockets";
 import {
   GameStartingData,
   NewQuestionData,
@@ -12,34 +21,57 @@ import {
   GameEndedData,
   GameStoppedData,
   AuthSuccessData,
+  GameStateSyncData,
   RoomSuccessData,
   UserJoinedData,
   UserLeftData,
+  UserDisconnectedData,
+  UserReconnectedData,
   UserKickedData,
   HostChangedData,
+  SpectatorPromotedData,
   KickedData,
   SettingsUpdatedData,
   ErrorData,
   RoomTtlWarningData,
   RoomExpiredData,
+  RoomClosedData,
+  SystemMessageData,
+  DailyChallengeQuestionData,
+  DailyChallengeAnswerResultData,
+  DailyChallengeCompleteData,
+  HeartsUpdatedData,
+  PlayerEliminatedData,
 } from "../schemas/websockets";
 import { safeValidate } from "../utils/validation";
-import { DEFAULT_DIFFICULTY } from "../constants/game-constants";
+import { DEFAULT_DIFFICULTY, DEFAULT_QUESTION_TYPE, MAX_SPECTATORS_PER_ROOM } from "../constants/game-constants";
 import { WS_MESSAGE_TYPES } from "../constants/ws-message-types";
 import { WebSocketSecurity } from "../utils/security/websocket";
+import { ipMatchesRange, isSharedClientIP } from "../utils/security/network";
 import { ErrorHandler, AppError, ErrorCode } from "../utils/error-handler";
 import { logger } from "../utils/logger";
+import { createRequestId } from "../utils/request-context";
+import { roomBus, RelaySocket, type RelayMessage, type RoomBusEvent } from "../bus";
+import { auditLog } from "../audit";
+import { broadcastFanoutSeconds, metrics, wsMessagesTotal } from "../metrics";
 import { HeartbeatManager } from "./heartbeat-management";
 import { roomsManager } from "./room-management";
 import { usersManager } from "./user-management";
+import { bansManager } from "./ban-management";
 import { gameManager } from "./game-management";
+import { dailyChallengeManager } from "./daily-challenge-management";
 import { env, isDevelopment } from "../utils/env";
-import { getDifficultySettings } from "../game-logic/main";
+import { clampQuestionCount, validateCountryPool } from "../game-logic/main";
 import { rateLimiter } from "../utils/security/rate-limiter";
+import { SECURITY_CONFIG } from "../utils/security/config";
 
 const MAX_WEBSOCKET_MESSAGE_BYTES = 128 * 1024; // 128KB
 const MAX_BUFFERED_BYTES = 1 * 1024 * 1024; // 1MB backpressure threshold
 
+const userLocationKey = (userId: string) => `user:${userId}`;
+/** Sent to spectators when the last player leaves and the room is deleted */
+const EMPTY_ROOM_REASON = "All players have left";
+
 export interface MessageDataTypes {
   [WS_MESSAGE_TYPES.GAME_STARTING]: GameStartingData;
   [WS_MESSAGE_TYPES.NEW_QUESTION]: NewQuestionData;
@@ -47,19 +79,30 @@ export interface MessageDataTypes {
   [WS_MESSAGE_TYPES.QUESTION_RESULTS]: QuestionResultsData;
   [WS_MESSAGE_TYPES.GAME_ENDED]: GameEndedData;
   [WS_MESSAGE_TYPES.GAME_STOPPED]: GameStoppedData;
+  [WS_MESSAGE_TYPES.HEARTS_UPDATED]: HeartsUpdatedData;
+  [WS_MESSAGE_TYPES.PLAYER_ELIMINATED]: PlayerEliminatedData;
   [WS_MESSAGE_TYPES.AUTH_SUCCESS]: AuthSuccessData;
+  [WS_MESSAGE_TYPES.GAME_STATE_SYNC]: GameStateSyncData;
   [WS_MESSAGE_TYPES.CREATE_ROOM_SUCCESS]: RoomSuccessData;
   [WS_MESSAGE_TYPES.JOIN_ROOM_SUCCESS]: RoomSuccessData;
   [WS_MESSAGE_TYPES.USER_JOINED]: UserJoinedData;
   [WS_MESSAGE_TYPES.USER_LEFT]: UserLeftData;
+  [WS_MESSAGE_TYPES.USER_DISCONNECTED]: UserDisconnectedData;
+  [WS_MESSAGE_TYPES.USER_RECONNECTED]: UserReconnectedData;
   [WS_MESSAGE_TYPES.USER_KICKED]: UserKickedData;
   [WS_MESSAGE_TYPES.HOST_CHANGED]: HostChangedData;
+  [WS_MESSAGE_TYPES.SPECTATOR_PROMOTED]: SpectatorPromotedData;
   [WS_MESSAGE_TYPES.KICKED]: KickedData;
   [WS_MESSAGE_TYPES.SETTINGS_UPDATED]: SettingsUpdatedData;
   [WS_MESSAGE_TYPES.ERROR]: ErrorData;
   [WS_MESSAGE_TYPES.HEARTBEAT]: {};
   [WS_MESSAGE_TYPES.ROOM_TTL_WARNING]: RoomTtlWarningData;
   [WS_MESSAGE_TYPES.ROOM_EXPIRED]: RoomExpiredData;
+  [WS_MESSAGE_TYPES.ROOM_CLOSED]: RoomClosedData;
+  [WS_MESSAGE_TYPES.SYSTEM_MESSAGE]: SystemMessageData;
+  [WS_MESSAGE_TYPES.DAILY_CHALLENGE_QUESTION]: DailyChallengeQuestionData;
+  [WS_MESSAGE_TYPES.DAILY_CHALLENGE_ANSWER_RESULT]: DailyChallengeAnswerResultData;
+  [WS_MESSAGE_TYPES.DAILY_CHALLENGE_COMPLETE]: DailyChallengeCompleteData;
 }
 
 interface WebSocketConfig {
@@ -74,6 +117,9 @@ interface WebSocketConfig {
 class WebSocketManager {
   public connections = new Map<string, CustomWebSocket>();
   private heartbeatManager: HeartbeatManager;
+  private pendingDisconnects = new Map<string, NodeJS.Timeout>();
+  /** Stand-ins for sockets held by other instances, by connection id */
+  private relaySockets = new Map<string, RelaySocket>();
 
   constructor(config: WebSocketConfig = {}) {
     this.heartbeatManager = new HeartbeatManager(
@@ -83,9 +129,18 @@ class WebSocketManager {
         maxMissed: 3,
         enableLogging: isDevelopment,
       },
-      (userId: string): void => this.removeConnectionAndUser(userId),
+      (userId: string): void => this.handleDeadConnection(userId),
       (userId: string): void => usersManager.updateLastActiveTime(userId)
     );
+
+    roomBus.subscribe((event) => this.deliverRoomEvent(event));
+    roomBus.onRelay((message) => this.handleRelay(message));
+
+    metrics.gauge({
+      name: "flags_ws_connections",
+      help: "Open WebSocket connections on this instance",
+      collect: (gauge) => gauge.set(undefined, this.connections.size),
+    });
   }
 
   addConnection(userId: string, ws: CustomWebSocket): void {
@@ -101,11 +156,15 @@ class WebSocketManager {
     }
     this.connections.set(userId, ws);
     usersManager.setUserConnection(userId, ws);
-    this.heartbeatManager.startHeartbeat(userId, ws);
+    if (!ws.data?.relayOrigin) {
+      this.heartbeatManager.startHeartbeat(userId, ws);
+    }
   }
 
   removeConnection(userId: string): void {
-    if (!this.connections.has(userId)) return;
+    if (!this.connections.has(userId)) {
+      return;
+    }
 
     this.connections.delete(userId);
     usersManager.removeUserConnection(userId);
@@ -121,7 +180,9 @@ class WebSocketManager {
   }
 
   private removeConnectionAndUser(userId: string): void {
-    if (!this.connections.has(userId)) return;
+    if (!this.connections.has(userId)) {
+      return;
+    }
 
     this.removeConnection(userId);
 
@@ -132,6 +193,26 @@ class WebSocketManager {
     usersManager.deleteUser(userId);
   }
 
+  /** A silently dropped client gets the same grace period as one whose socket closed */
+  private handleDeadConnection(userId: string): void {
+    const ws = this.connections.get(userId);
+    if (!ws) {
+      return;
+    }
+
+    if (!this.beginDisconnectGrace(userId)) {
+      this.handleUserDisconnect(userId);
+    }
+    this.relayClose(ws);
+
+    ws.data = { ...ws.data, closedByHeartbeat: true };
+    try {
+      ws.close(1001, "Heartbeat timeout");
+    } catch {
+      // Already closed
+    }
+  }
+
   private isConnectionValid(ws: CustomWebSocket | undefined): boolean {
     return !!ws && ws.readyState === WebSocket.OPEN;
   }
@@ -142,21 +223,31 @@ class WebSocketManager {
     exclude: string[] = []
   ): void {
     const room = roomsManager.getRoom(roomId);
-    if (!room) return;
+    if (!room) {
+      return;
+    }
 
     const messageString = JSON.stringify({
       ...message,
       timestamp: Date.now(),
     });
 
-    const excludeSet = new Set(exclude);
+    roomBus.publish({ roomId, payload: messageString, exclude });
+  }
 
-    room.members.forEach((member) => {
-      if (excludeSet.has(member.id)) return;
+  /** Sends a room event to the members of that room connected to this instance */
+  private deliverRoomEvent(event: RoomBusEvent): void {
+    const excludeSet = new Set(event.exclude);
+    const stopTimer = broadcastFanoutSeconds.startTimer();
 
-      const ws = this.getConnection(member.id);
-      this.safeSendToUser(member.id, ws, messageString);
+    this.connections.forEach((ws, userId) => {
+      if (ws.data?.roomId !== event.roomId || excludeSet.has(userId)) {
+        return;
+      }
+      this.safeSendToUser(userId, ws, event.payload);
     });
+
+    stopTimer();
   }
 
   broadcastToUser(userId: string, message: WebSocketMessage): void {
@@ -182,7 +273,15 @@ class WebSocketManager {
     });
   }
 
+  private connectionLogger(userId: string, ws: CustomWebSocket) {
+    return logger.child({ userId, connectionId: ws.data?.connectionId, roomId: ws.data?.roomId });
+  }
+
   private safeSendToUser(userId: string, ws: CustomWebSocket | undefined, messageString: string): void {
+    if (this.pendingDisconnects.has(userId)) {
+      return;
+    }
+
     if (!this.isConnectionValid(ws)) {
       this.handleUserDisconnect(userId);
       return;
@@ -190,7 +289,7 @@ class WebSocketManager {
 
     const buffered = ws!.getBufferedAmount();
     if (buffered > MAX_BUFFERED_BYTES) {
-      logger.warn(`Closing backpressured connection for user ${userId} (buffered=${buffered})`);
+      this.connectionLogger(userId, ws!).warn("Closing backpressured connection", { buffered });
       try {
         ws!.close(1013, "Backpressure");
       } catch {}
@@ -201,20 +300,22 @@ class WebSocketManager {
     try {
       ws!.send(messageString);
     } catch (error) {
-      logger.error(`Error sending message to user ${userId}:`, error);
+      this.connectionLogger(userId, ws!).error("Error sending message", error);
       this.handleUserDisconnect(userId);
     }
   }
 
   handleOpen(ws: ServerWebSocket<WebSocketData>): void {
-    logger.info(`WebSocket connection opened - User: ${ws.data?.userId}`);
+    logger.info("WebSocket connection opened");
 
     ws.data = {
       userId: ws.data?.userId ?? null,
+      connectionId: ws.data?.connectionId ?? createRequestId(),
       roomId: ws.data?.roomId ?? null,
       isAdmin: ws.data?.isAdmin ?? false,
       authenticated: ws.data?.authenticated ?? true,
       ipAddress: ws.data?.ipAddress,
+      relayOrigin: ws.data?.relayOrigin,
     };
 
     const userId = ws.data.userId;
@@ -236,9 +337,16 @@ class WebSocketManager {
       });
     }
 
+    const previousRelayTo = this.connections.get(userId)?.data?.relayTo;
     this.addConnection(userId, ws);
 
-    const user = usersManager.getUser(userId);
+    const reconnected = this.cancelPendingDisconnect(userId);
+
+    let user = usersManager.getUser(userId);
+    // The room may have been deleted while the user was away
+    if (user?.roomId && !roomsManager.has(user.roomId)) {
+      user = usersManager.updateUser(userId, { roomId: "", isAdmin: false }) ?? user;
+    }
 
     let room: Room | null = null;
     if (user && user.roomId !== "") {
@@ -265,16 +373,255 @@ class WebSocketManager {
       }
     }
 
+    if (!(room || ws.data.relayOrigin)) {
+      this.resumeRemoteSession(ws, previousRelayTo).catch((error) =>
+        this.connectionLogger(userId, ws).error("Failed to look up the user's room on other instances", error)
+      );
+    }
+
+    if (reconnected && room) {
+      room = roomsManager.updateMember(room.id, userId, { status: "connected", disconnectedAt: undefined }) || room;
+    }
+
     ws.send(
       JSON.stringify({
         type: WS_MESSAGE_TYPES.AUTH_SUCCESS,
-        data: { userId: userId, isAdmin: ws.data.isAdmin, user, room },
+        data: { userId: userId, isAdmin: ws.data.isAdmin, user, room: room && gameManager.toClientRoom(room) },
       })
     );
+
+    if (reconnected && room && user) {
+      this.announceReconnectedUser(userId, room);
+    }
+
+    if (room && room.gameState.phase !== "waiting") {
+      const sync = gameManager.getGameStateSync(room.id, userId);
+      if (sync) {
+        ws.send(
+          JSON.stringify({
+            type: WS_MESSAGE_TYPES.GAME_STATE_SYNC,
+            data: sync,
+            timestamp: Date.now(),
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * A client whose room lives on another instance, e.g. one reconnecting here within
+   * its grace period, is handed back to that instance; it replies with AUTH_SUCCESS.
+   */
+  private async resumeRemoteSession(ws: CustomWebSocket, relayTo?: string): Promise<void> {
+    const { userId, connectionId, ipAddress } = ws.data;
+    if (!userId) {
+      return;
+    }
+
+    const owner = relayTo ?? (await roomBus.locate(userLocationKey(userId)));
+    if (!owner || owner === roomBus.instanceId || this.connections.get(userId) !== ws) {
+      return;
+    }
+
+    ws.data.relayTo = owner;
+    roomBus.sendToInstance(owner, { kind: "open", userId, connectionId, origin: roomBus.instanceId, ipAddress });
+  }
+
+  private announceReconnectedUser(userId: string, room: Room): void {
+    const member = room.members.find((m) => m.id === userId);
+    if (!member) {
+      return;
+    }
+
+    logger.info("User reconnected within grace period", { userId, roomId: room.id });
+
+    this.broadcastToRoom(
+      room.id,
+      {
+        type: WS_MESSAGE_TYPES.USER_RECONNECTED,
+        data: { userId, user: member },
+      },
+      [userId]
+    );
+  }
+
+  /**
+   * Restored users have no socket after a restart; give them the usual grace period
+   * to reconnect instead of dropping them on the first broadcast.
+   */
+  resumeRestoredUsers(userIds: string[]): void {
+    for (const userId of userIds) {
+      if (this.connections.has(userId)) {
+        continue;
+      }
+      if (!this.beginDisconnectGrace(userId, false)) {
+        this.handleUserDisconnect(userId);
+        usersManager.deleteUser(userId);
+      }
+    }
+  }
+
+  /** Removes every user covered by a newly created ban from their room and closes their socket */
+  enforceBan(ban: Ban): number {
+    const targets = new Set<string>();
+    for (const [userId, ws] of this.connections) {
+      const matches =
+        ban.type === "user"
+          ? userId === ban.target
+          : !!ws.data?.ipAddress && ipMatchesRange(ws.data.ipAddress, ban.target);
+      if (matches) {
+        targets.add(userId);
+      }
+    }
+    if (ban.type === "user" && usersManager.hasUser(ban.target)) {
+      targets.add(ban.target);
+    }
+
+    for (const userId of targets) {
+      const ws = this.getConnection(userId);
+      if (ws) {
+        ErrorHandler.handleWebSocketError(ws, ErrorHandler.createBannedError(ban.reason, ban.expiresAt), "ban");
+      }
+
+      this.handleUserDisconnect(userId);
+      usersManager.deleteUser(userId);
+
+      try {
+        ws?.close(4003, "Banned");
+      } catch {
+        // Already closed
+      }
+    }
+
+    return targets.size;
+  }
+
+  /** Charges the action per user and per IP; replies with an error and returns false when over budget */
+  private consumeRateLimit(ws: ServerWebSocket<WebSocketData>, action: string): boolean {
+    const result = rateLimiter.consume(action, { userId: ws.data.userId, ipAddress: ws.data.ipAddress });
+    if (result.allowed) {
+      return true;
+    }
+
+    this.rejectRateLimited(ws, action, result);
+    return false;
+  }
+
+  private rejectRateLimited(
+    ws: ServerWebSocket<WebSocketData>,
+    action: string,
+    result: ReturnType<typeof rateLimiter.consume>
+  ): void {
+    const error = ErrorHandler.createRateLimitError(result.retryAfter, {
+      action,
+      remaining: result.remaining,
+      resetTime: result.resetTime,
+      ...(result.scope !== undefined ? { scope: result.scope } : {}),
+      ...(result.limit !== undefined ? { limit: result.limit } : {}),
+      ...(result.windowMs !== undefined ? { windowMs: result.windowMs } : {}),
+    });
+    ErrorHandler.handleWebSocketError(ws, error, `rate_limit_${action.toLowerCase()}`);
+
+    this.escalateRateLimitViolation(ws);
+  }
+
+  /** Repeat offenders get a temporary ban on their IP, or on their account when the IP may be shared */
+  private escalateRateLimitViolation(ws: ServerWebSocket<WebSocketData>): void {
+    const { userId, ipAddress } = ws.data;
+    const canBanIP = !!ipAddress && !isSharedClientIP(ipAddress);
+    let offender: { type: "ip" | "user"; target: string } | null = null;
+    if (canBanIP) {
+      offender = { type: "ip", target: ipAddress };
+    } else if (userId) {
+      offender = { type: "user", target: userId };
+    }
+    if (!(offender && rateLimiter.recordViolation(`${offender.type}:${offender.target}`))) {
+      return;
+    }
+
+    const reason = "Repeated rate limit violations";
+    const ban = bansManager.createBan({
+      ...offender,
+      reason,
+      issuedBy: "system",
+      durationMs: SECURITY_CONFIG.RATE_LIMITS.ESCALATION.BLOCK_DURATION_MS,
+    });
+    const disconnected = this.enforceBan(ban);
+
+    logger.warn(`Temporarily blocked ${offender.type} after repeated rate limit violations`, {
+      target: offender.target,
+      expiresAt: ban.expiresAt,
+    });
+    auditLog.record({
+      actor: "system",
+      action: "ban.create",
+      target: ban.target,
+      details: { banId: ban.id, type: ban.type, reason, expiresAt: ban.expiresAt, disconnected },
+    });
+  }
+
+  private beginDisconnectGrace(userId: string, announce = true): boolean {
+    const user = usersManager.getUser(userId);
+    if (!user || !user.roomId || env.RECONNECT_GRACE_PERIOD_MS <= 0) {
+      return false;
+    }
+
+    const disconnectedAt = Date.now();
+    const updatedRoom = roomsManager.updateMember(user.roomId, userId, { status: "disconnected", disconnectedAt });
+    if (!updatedRoom) {
+      return false;
+    }
+
+    this.removeConnection(userId);
+
+    const timeoutId = setTimeout(() => {
+      this.pendingDisconnects.delete(userId);
+      this.clearUserLocation(userId);
+      this.handleUserDisconnect(userId);
+      usersManager.deleteUser(userId);
+    }, env.RECONNECT_GRACE_PERIOD_MS);
+    this.pendingDisconnects.set(userId, timeoutId);
+    // Lets the user reconnect through any instance
+    roomBus
+      .setLocation(userLocationKey(userId), env.RECONNECT_GRACE_PERIOD_MS)
+      .catch((error) => logger.child({ userId }).error("Failed to publish the user's location", error));
+
+    if (announce) {
+      this.broadcastToRoom(updatedRoom.id, {
+        type: WS_MESSAGE_TYPES.USER_DISCONNECTED,
+        data: { userId, reconnectDeadline: disconnectedAt + env.RECONNECT_GRACE_PERIOD_MS },
+      });
+    }
+
+    return true;
+  }
+
+  private clearUserLocation(userId: string): void {
+    roomBus
+      .clearLocation(userLocationKey(userId))
+      .catch((error) => logger.child({ userId }).error("Failed to clear the user's location", error));
+  }
+
+  private cancelPendingDisconnect(userId: string): boolean {
+    const timeoutId = this.pendingDisconnects.get(userId);
+    if (!timeoutId) {
+      return false;
+    }
+
+    clearTimeout(timeoutId);
+    this.pendingDisconnects.delete(userId);
+    this.clearUserLocation(userId);
+    return true;
   }
 
   async handleMessage(ws: ServerWebSocket<WebSocketData>, message: string | Buffer): Promise<void> {
     try {
+      const budget = rateLimiter.consumeMessage(ws.data.connectionId);
+      if (!budget.allowed) {
+        this.rejectRateLimited(ws, "MESSAGE", budget);
+        return;
+      }
+
       const payloadBytes = typeof message === "string" ? Buffer.byteLength(message) : (message as Buffer).length;
 
       if (payloadBytes > MAX_WEBSOCKET_MESSAGE_BYTES) {
@@ -340,6 +687,10 @@ class WebSocketManager {
         return;
       }
 
+      if (await this.relayToRoomOwner(ws, validation.data, messageString)) {
+        return;
+      }
+
       await this.routeMessage(ws, validation.data);
     } catch (error) {
       const appError = new AppError({
@@ -353,7 +704,9 @@ class WebSocketManager {
   }
 
   handleClose(ws: ServerWebSocket<WebSocketData>): void {
-    if (!ws.data?.userId) return;
+    if (!ws.data?.userId || ws.data.closedByHeartbeat) {
+      return;
+    }
     if (ws.data.closedByNewSession) {
       const current = this.getConnection(ws.data.userId);
       if (current === ws) {
@@ -361,36 +714,227 @@ class WebSocketManager {
       }
       return;
     }
+    this.relayClose(ws);
+    if (this.beginDisconnectGrace(ws.data.userId)) {
+      return;
+    }
+
     this.handleUserDisconnect(ws.data.userId);
   }
 
+  /**
+   * Forwards the message to the instance that owns the sender's room and returns true
+   * when that instance alone should handle it. Joins by an invite code this instance
+   * doesn't know are looked up on the bus first.
+   */
+  private async relayToRoomOwner(
+    ws: ServerWebSocket<WebSocketData>,
+    message: WebSocketMessage,
+    raw: string
+  ): Promise<boolean> {
+    if (ws.data.relayOrigin) {
+      return false;
+    }
+    if (message.type === WS_MESSAGE_TYPES.DAILY_CHALLENGE_START || message.type === WS_MESSAGE_TYPES.DAILY_CHALLENGE_ANSWER) {
+      return false;
+    }
+
+    if (
+      (message.type === WS_MESSAGE_TYPES.JOIN_ROOM || message.type === WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR) &&
+      !ws.data.relayTo &&
+      !ws.data.roomId &&
+      !roomsManager.getRoomByInviteCode(message.data.inviteCode)
+    ) {
+      const owner = await roomsManager.locateInviteCode(message.data.inviteCode);
+      if (owner && owner !== roomBus.instanceId) {
+        ws.data.relayTo = owner;
+      }
+    }
+
+    const { userId, connectionId, ipAddress, relayTo } = ws.data;
+    if (!relayTo || !userId) {
+      return false;
+    }
+
+    roomBus.sendToInstance(relayTo, {
+      kind: "message",
+      userId,
+      connectionId,
+      origin: roomBus.instanceId,
+      ipAddress,
+      payload: raw,
+    });
+
+    // Heartbeats are answered here too, since this instance holds the socket
+    return message.type !== WS_MESSAGE_TYPES.HEARTBEAT_RESPONSE;
+  }
+
+  /** Tells the owner of a relayed client's room that the client's socket is gone */
+  private relayClose(ws: ServerWebSocket<WebSocketData>): void {
+    const { userId, connectionId, relayTo } = ws.data;
+    if (!relayTo || !userId) {
+      return;
+    }
+
+    roomBus.sendToInstance(relayTo, { kind: "close", userId, connectionId, origin: roomBus.instanceId });
+  }
+
+  private handleRelay(message: RelayMessage): void {
+    switch (message.kind) {
+      case "open":
+        if (!message.origin) {
+          return;
+        }
+        this.handleOpen(this.trackRelaySocket(message.origin, message).asWebSocket());
+        this.releaseDetachedRelaySockets();
+        break;
+      case "message":
+        if (!message.origin) {
+          return;
+        }
+        this.handleRelayedMessage(message.origin, message).catch((error) =>
+          logger.child({ userId: message.userId, connectionId: message.connectionId }).error("Failed to handle relayed message", error)
+        );
+        break;
+      case "close": {
+        const socket = this.relaySockets.get(message.connectionId);
+        if (!socket) {
+          return;
+        }
+        this.relaySockets.delete(message.connectionId);
+        this.handleClose(socket.asWebSocket());
+        break;
+      }
+      case "send": {
+        const ws = this.getConnection(message.userId);
+        if (ws?.data?.connectionId !== message.connectionId || !message.payload) {
+          return;
+        }
+        this.safeSendToUser(message.userId, ws, message.payload);
+        break;
+      }
+      case "disconnect": {
+        const ws = this.getConnection(message.userId);
+        if (ws?.data?.connectionId !== message.connectionId) {
+          return;
+        }
+        try {
+          ws.close(message.code, message.reason);
+        } catch {
+          // Already closed
+        }
+        break;
+      }
+      case "detach": {
+        const ws = this.getConnection(message.userId);
+        if (ws?.data?.connectionId !== message.connectionId) {
+          return;
+        }
+        ws.data.relayTo = undefined;
+        break;
+      }
+    }
+  }
+
+  private async handleRelayedMessage(origin: string, message: RelayMessage): Promise<void> {
+    let socket = this.relaySockets.get(message.connectionId);
+    if (!socket) {
+      socket = this.trackRelaySocket(origin, message);
+      if (!usersManager.getUser(message.userId)) {
+        usersManager.createUser({
+          id: message.userId,
+          username: "",
+          roomId: "",
+          socketId: nanoid(),
+          isAdmin: false,
+        });
+      }
+      this.addConnection(message.userId, socket.asWebSocket());
+    }
+
+    usersManager.updateLastActiveTime(message.userId);
+    await this.handleMessage(socket.asWebSocket(), message.payload ?? "");
+    this.releaseDetachedRelaySockets();
+  }
+
+  private trackRelaySocket(origin: string, message: RelayMessage): RelaySocket {
+    for (const [connectionId, existing] of this.relaySockets) {
+      if (existing.data.userId === message.userId) {
+        this.relaySockets.delete(connectionId);
+      }
+    }
+
+    const socket = new RelaySocket(roomBus, origin, {
+      userId: message.userId,
+      connectionId: message.connectionId,
+      roomId: null,
+      isAdmin: false,
+      authenticated: true,
+      ipAddress: message.ipAddress,
+    });
+    this.relaySockets.set(message.connectionId, socket);
+    return socket;
+  }
+
+  /** Relayed clients that no longer have a room here go back to being served where they're connected */
+  private releaseDetachedRelaySockets(): void {
+    for (const [connectionId, socket] of this.relaySockets) {
+      const { userId } = socket.data;
+      if (!userId || usersManager.getUser(userId)?.roomId) {
+        continue;
+      }
+
+      this.relaySockets.delete(connectionId);
+      if (this.getConnection(userId) === socket.asWebSocket()) {
+        this.removeConnection(userId);
+        usersManager.deleteUser(userId);
+      }
+      roomBus.sendToInstance(socket.origin, { kind: "detach", userId, connectionId });
+    }
+  }
+
   private async routeMessage(ws: ServerWebSocket<WebSocketData>, message: WebSocketMessage): Promise<void> {
     const { userId, roomId } = ws.data;
+    wsMessagesTotal.inc({ type: message.type });
 
     switch (message.type) {
       case WS_MESSAGE_TYPES.JOIN_ROOM:
         this.handleJoinRoom(ws, message.data);
         break;
+      case WS_MESSAGE_TYPES.JOIN_AS_SPECTATOR:
+        this.handleJoinRoom(ws, message.data, true);
+        break;
+      case WS_MESSAGE_TYPES.PROMOTE_SPECTATOR:
+        this.handlePromoteSpectator(ws, message.data);
+        break;
       case WS_MESSAGE_TYPES.CREATE_ROOM:
         this.handleCreateRoom(ws, message.data);
         break;
       case WS_MESSAGE_TYPES.SUBMIT_ANSWER:
-        if (!userId || !roomId) return;
-        {
-          const result = rateLimiter.consume("SUBMIT_ANSWER", { userId });
-          if (!result.allowed) {
-            const error = ErrorHandler.createRateLimitError(result.retryAfter, {
-              action: "SUBMIT_ANSWER",
-              remaining: result.remaining,
-              resetTime: result.resetTime,
-              ...(result.limit !== undefined ? { limit: result.limit } : {}),
-              ...(result.windowMs !== undefined ? { windowMs: result.windowMs } : {}),
-            });
-            ErrorHandler.handleWebSocketError(ws, error, "rate_limit_submit_answer");
-            return;
-          }
+        if (!userId || !roomId) {
+          return;
+        }
+        if (roomsManager.isSpectator(roomId, userId)) {
+          const error = ErrorHandler.createPermissionError("Spectators cannot submit answers");
+          ErrorHandler.handleWebSocketError(ws, error, "submit_answer");
+          return;
+        }
+        if (!this.consumeRateLimit(ws, "SUBMIT_ANSWER")) {
+          return;
+        }
+        const submitResult = await gameManager.submitAnswer(
+          roomId,
+          userId,
+          message.data.answer,
+          message.data.questionId
+        );
+        if (!submitResult.success) {
+          const error = ErrorHandler.createRoomError(
+            submitResult.error || "Cannot submit answer",
+            ErrorCode.INVALID_GAME_STATE
+          );
+          ErrorHandler.handleWebSocketError(ws, error, "submit_answer");
         }
-        gameManager.submitAnswer(roomId, userId, message.data.answer);
         break;
       case WS_MESSAGE_TYPES.UPDATE_ROOM_SETTINGS:
         this.handleUpdateRoomSettings(ws, message.data);
@@ -405,20 +949,11 @@ class WebSocketManager {
         this.handleLeaveRoom(ws);
         break;
       case WS_MESSAGE_TYPES.START_GAME:
-        if (!userId || !roomId) return;
-        {
-          const result = rateLimiter.consume("START_GAME", { userId });
-          if (!result.allowed) {
-            const error = ErrorHandler.createRateLimitError(result.retryAfter, {
-              action: "START_GAME",
-              remaining: result.remaining,
-              resetTime: result.resetTime,
-              ...(result.limit !== undefined ? { limit: result.limit } : {}),
-              ...(result.windowMs !== undefined ? { windowMs: result.windowMs } : {}),
-            });
-            ErrorHandler.handleWebSocketError(ws, error, "rate_limit_start_game");
-            return;
-          }
+        if (!userId || !roomId) {
+          return;
+        }
+        if (!this.consumeRateLimit(ws, "START_GAME")) {
+          return;
         }
         const startResult = await gameManager.startGame(roomId, userId);
         if (!startResult.success) {
@@ -427,15 +962,21 @@ class WebSocketManager {
         }
         break;
       case WS_MESSAGE_TYPES.STOP_GAME:
-        if (!userId || !roomId) return;
+        if (!userId || !roomId) {
+          return;
+        }
 
         const stopRoom = roomsManager.getRoom(roomId);
-        if (!stopRoom || stopRoom.host !== userId) return;
+        if (!stopRoom || stopRoom.host !== userId) {
+          return;
+        }
 
-        gameManager.stopGame(roomId);
+        gameManager.stopGame(roomId, userId);
         break;
       case WS_MESSAGE_TYPES.RESTART_GAME:
-        if (!userId || !roomId) return;
+        if (!userId || !roomId) {
+          return;
+        }
 
         const restartResult = await gameManager.restartGame(roomId, userId);
         if (!restartResult.success) {
@@ -443,6 +984,12 @@ class WebSocketManager {
           ErrorHandler.handleWebSocketError(ws, error, "restart_game");
         }
         break;
+      case WS_MESSAGE_TYPES.DAILY_CHALLENGE_START:
+        this.handleDailyChallengeStart(ws, message.data);
+        break;
+      case WS_MESSAGE_TYPES.DAILY_CHALLENGE_ANSWER:
+        this.handleDailyChallengeAnswer(ws, message.data);
+        break;
       case WS_MESSAGE_TYPES.HEARTBEAT_RESPONSE:
         if (userId) {
           this.heartbeatManager.handleHeartbeatResponse(userId);
@@ -452,6 +999,8 @@ class WebSocketManager {
   }
 
   private handleUserDisconnect(userId: string): void {
+    this.cancelPendingDisconnect(userId);
+
     const user = usersManager.getUser(userId);
 
     if (user && user.roomId && user.roomId !== "") {
@@ -476,13 +1025,12 @@ class WebSocketManager {
           type: WS_MESSAGE_TYPES.USER_LEFT,
           data: {
             userId: userId,
-            room: updatedRoom,
+            room: gameManager.toClientRoom(updatedRoom),
           },
         });
 
         if (updatedRoom.members.length === 0) {
-          gameManager.stopGame(user.roomId);
-          roomsManager.delete(user.roomId);
+          this.closeRoom(user.roomId, EMPTY_ROOM_REASON);
         }
       }
     }
@@ -516,34 +1064,30 @@ class WebSocketManager {
     return this.connections;
   }
 
-  private handleJoinRoom(ws: ServerWebSocket<WebSocketData>, data: JoinRoomData): void {
+  private handleJoinRoom(ws: ServerWebSocket<WebSocketData>, data: JoinRoomData, asSpectator = false): void {
     const { inviteCode, username } = data;
     const userId = ws.data.userId;
+    const context = asSpectator ? "join_as_spectator" : "join_room";
 
     if (!userId) {
       const error = ErrorHandler.createRoomError("User not authenticated", ErrorCode.AUTHENTICATION_ERROR);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
-    {
-      const result = rateLimiter.consume("JOIN_ROOM", { userId });
-      if (!result.allowed) {
-        const error = ErrorHandler.createRateLimitError(result.retryAfter, {
-          action: "JOIN_ROOM",
-          remaining: result.remaining,
-          resetTime: result.resetTime,
-          ...(result.limit !== undefined ? { limit: result.limit } : {}),
-          ...(result.windowMs !== undefined ? { windowMs: result.windowMs } : {}),
-        });
-        ErrorHandler.handleWebSocketError(ws, error, "rate_limit_join_room");
-        return;
-      }
+    const ban = bansManager.isBanned(userId, ws.data.ipAddress);
+    if (ban) {
+      ErrorHandler.handleWebSocketError(ws, ErrorHandler.createBannedError(ban.reason, ban.expiresAt), context);
+      return;
+    }
+
+    if (!this.consumeRateLimit(ws, "JOIN_ROOM")) {
+      return;
     }
 
     if (ws.data.roomId) {
       const error = ErrorHandler.createRoomError("User already in a room", ErrorCode.USER_ALREADY_IN_ROOM);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
@@ -551,31 +1095,49 @@ class WebSocketManager {
 
     if (!room) {
       const error = ErrorHandler.createRoomError("Invalid invite code", ErrorCode.ROOM_NOT_FOUND);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
+      return;
+    }
+
+    if (asSpectator && room.settings.allowSpectators === false) {
+      const error = ErrorHandler.createRoomError("Spectators are not allowed in this room", ErrorCode.PERMISSION_DENIED);
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
-    if (!room.settings.allowJoinAfterGameStart && !["waiting", "starting"].includes(room.gameState.phase)) {
+    if (
+      !(
+        asSpectator ||
+        room.settings.allowJoinAfterGameStart ||
+        ["waiting", "starting"].includes(room.gameState.phase)
+      )
+    ) {
       const error = ErrorHandler.createRoomError("Joining not allowed: Game is in progress", ErrorCode.SESSION_ALREADY_STARTED);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
     if (room.kickedUsers.includes(userId)) {
       const error = ErrorHandler.createRoomError("You have been kicked from this room", ErrorCode.KICKED_FROM_ROOM);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
-    if (room.members.some((member) => member.username === username)) {
+    if ([...room.members, ...room.spectators].some((member) => member.username === username)) {
       const error = ErrorHandler.createRoomError("Username already taken", ErrorCode.USERNAME_TAKEN);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
-    if (room.members.length >= room.settings.maxRoomSize) {
+    if (!asSpectator && room.members.length >= room.settings.maxRoomSize) {
       const error = ErrorHandler.createRoomError("Room is full", ErrorCode.ROOM_FULL);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
+      return;
+    }
+
+    if (asSpectator && room.spectators.length >= MAX_SPECTATORS_PER_ROOM) {
+      const error = ErrorHandler.createRoomError("Spectator slots are full", ErrorCode.ROOM_FULL);
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
@@ -587,7 +1149,7 @@ class WebSocketManager {
 
     if (!updatedUser) {
       const error = ErrorHandler.createRoomError("User not found", ErrorCode.USER_NOT_FOUND);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
@@ -597,18 +1159,20 @@ class WebSocketManager {
       roomsManager.cancelScheduledDeletion(room.id);
     }
 
-    const updatedRoom = roomsManager.addUserToRoom(room.id, updatedUser);
+    const updatedRoom = asSpectator
+      ? roomsManager.addSpectatorToRoom(room.id, updatedUser)
+      : roomsManager.addUserToRoom(room.id, updatedUser);
 
     if (!updatedRoom) {
       const error = ErrorHandler.createRoomError("Failed to join room", ErrorCode.INTERNAL_ERROR);
-      ErrorHandler.handleWebSocketError(ws, error, "join_room");
+      ErrorHandler.handleWebSocketError(ws, error, context);
       return;
     }
 
     ws.send(
       JSON.stringify({
         type: WS_MESSAGE_TYPES.JOIN_ROOM_SUCCESS,
-        data: { room: updatedRoom, user: updatedUser },
+        data: { room: gameManager.toClientRoom(updatedRoom), user: updatedUser, isSpectator: asSpectator },
       })
     );
 
@@ -616,10 +1180,64 @@ class WebSocketManager {
       room.id,
       {
         type: WS_MESSAGE_TYPES.USER_JOINED,
-        data: { user: updatedUser, room: updatedRoom },
+        data: { user: updatedUser, room: gameManager.toClientRoom(updatedRoom), isSpectator: asSpectator },
       },
       [userId]
     );
+
+    if (asSpectator && updatedRoom.gameState.phase !== "waiting") {
+      const sync = gameManager.getGameStateSync(updatedRoom.id, userId);
+      if (sync) {
+        ws.send(
+          JSON.stringify({
+            type: WS_MESSAGE_TYPES.GAME_STATE_SYNC,
+            data: sync,
+            timestamp: Date.now(),
+          })
+        );
+      }
+    }
+  }
+
+  private handlePromoteSpectator(ws: ServerWebSocket<WebSocketData>, data: PromoteSpectatorData): void {
+    const { userId, roomId } = ws.data;
+    if (!userId || !roomId) {
+      return;
+    }
+
+    const room = roomsManager.getRoom(roomId);
+    if (!room || room.host !== userId) {
+      const error = ErrorHandler.createPermissionError("Only the host can promote spectators");
+      ErrorHandler.handleWebSocketError(ws, error, "promote_spectator");
+      return;
+    }
+
+    if (room.gameState.isActive) {
+      const error = ErrorHandler.createRoomError(
+        "Spectators can only be promoted between games",
+        ErrorCode.INVALID_GAME_STATE
+      );
+      ErrorHandler.handleWebSocketError(ws, error, "promote_spectator");
+      return;
+    }
+
+    if (!roomsManager.isSpectator(roomId, data.userId)) {
+      const error = ErrorHandler.createRoomError("Spectator not found", ErrorCode.USER_NOT_FOUND);
+      ErrorHandler.handleWebSocketError(ws, error, "promote_spectator");
+      return;
+    }
+
+    const updatedRoom = roomsManager.promoteSpectator(roomId, data.userId);
+    if (!updatedRoom) {
+      const error = ErrorHandler.createRoomError("Room is full", ErrorCode.ROOM_FULL);
+      ErrorHandler.handleWebSocketError(ws, error, "promote_spectator");
+      return;
+    }
+
+    this.broadcastToRoom(roomId, {
+      type: WS_MESSAGE_TYPES.SPECTATOR_PROMOTED,
+      data: { userId: data.userId, room: gameManager.toClientRoom(updatedRoom) },
+    });
   }
 
   private handleCreateRoom(ws: ServerWebSocket<WebSocketData>, data: CreateRoomData): void {
@@ -638,19 +1256,15 @@ class WebSocketManager {
       return;
     }
 
-    {
-      const result = rateLimiter.consume("CREATE_ROOM", { userId });
-      if (!result.allowed) {
-        const error = ErrorHandler.createRateLimitError(result.retryAfter, {
-          action: "CREATE_ROOM",
-          remaining: result.remaining,
-          resetTime: result.resetTime,
-          ...(result.limit !== undefined ? { limit: result.limit } : {}),
-          ...(result.windowMs !== undefined ? { windowMs: result.windowMs } : {}),
-        });
-        ErrorHandler.handleWebSocketError(ws, error, "rate_limit_create_room");
-        return;
-      }
+    if (!this.consumeRateLimit(ws, "CREATE_ROOM")) {
+      return;
+    }
+
+    const poolCheck = validateCountryPool({ ...settings, difficulty: settings?.difficulty || DEFAULT_DIFFICULTY });
+    if (!poolCheck.success) {
+      const error = ErrorHandler.createValidationError(poolCheck.error || "Country pool is too small");
+      ErrorHandler.handleWebSocketError(ws, error, "create_room");
+      return;
     }
 
     const roomId = nanoid();
@@ -674,10 +1288,14 @@ class WebSocketManager {
       difficulty: difficulty,
       maxRoomSize: settings.maxRoomSize,
       timePerQuestion: settings.timePerQuestion,
-      questionCount: getDifficultySettings(difficulty).count,
+      questionCount: settings.questionCount,
       gameMode: settings?.gameMode || "classic",
+      questionType: settings?.questionType || DEFAULT_QUESTION_TYPE,
+      answerMode: settings?.answerMode || "choice",
+      optionCount: settings?.optionCount,
+      countryPool: settings?.countryPool,
       allowJoinAfterGameStart: settings?.allowJoinAfterGameStart ?? false,
-      // allowSpectators: settings?.allowSpectators ?? true,
+      allowSpectators: settings?.allowSpectators ?? true,
     });
 
     ws.data.roomId = roomId;
@@ -693,10 +1311,18 @@ class WebSocketManager {
   private handleLeaveRoom(ws: ServerWebSocket<WebSocketData>): void {
     const { userId, roomId } = ws.data;
 
-    if (!userId || !roomId) return;
+    if (!userId || !roomId) {
+      return;
+    }
+
+    ws.data.roomId = null;
+    ws.data.isAdmin = false;
+    usersManager.updateUser(userId, { roomId: "", isAdmin: false });
 
     const room = roomsManager.getRoom(roomId);
-    if (!room) return;
+    if (!room) {
+      return;
+    }
 
     const updatedRoom = roomsManager.removeUserFromRoom(roomId, userId);
 
@@ -715,30 +1341,58 @@ class WebSocketManager {
       type: WS_MESSAGE_TYPES.USER_LEFT,
       data: {
         userId: userId,
-        room: updatedRoom ? updatedRoom : null,
+        room: updatedRoom ? gameManager.toClientRoom(updatedRoom) : null,
       },
     });
 
     if (updatedRoom && updatedRoom.members.length === 0) {
-      gameManager.stopGame(roomId);
-      roomsManager.delete(roomId);
+      this.closeRoom(roomId, EMPTY_ROOM_REASON);
     }
-
-    ws.data.roomId = null;
-    ws.data.isAdmin = false;
-    usersManager.updateUser(userId, { roomId: "", isAdmin: false });
   }
 
   private handleUpdateRoomSettings(ws: ServerWebSocket<WebSocketData>, data: UpdateSettingsData): void {
     const { userId, roomId } = ws.data;
-    if (!userId || !roomId) return;
+    if (!userId || !roomId) {
+      return;
+    }
 
     const room = roomsManager.getRoom(roomId);
-    if (!room || room.host !== userId) return;
+    if (!room || room.host !== userId) {
+      return;
+    }
+
+    if (!this.consumeRateLimit(ws, "UPDATE_ROOM_SETTINGS")) {
+      return;
+    }
+
+    const mergedSettings = { ...room.settings, ...data.settings };
+    const poolCheck = validateCountryPool(mergedSettings);
+    if (!poolCheck.success) {
+      const error = ErrorHandler.createValidationError(poolCheck.error || "Country pool is too small");
+      ErrorHandler.handleWebSocketError(ws, error, "update_room_settings");
+      return;
+    }
 
-    const updatedRoom = roomsManager.update(roomId, {
-      settings: { ...room.settings, ...data.settings } as any,
+    const questionCount = clampQuestionCount(
+      mergedSettings.difficulty,
+      mergedSettings.questionCount,
+      mergedSettings.countryPool,
+      mergedSettings.questionType
+    );
+
+    const updatedRoom = roomsManager.updateRoomSettings(roomId, { ...mergedSettings, questionCount });
+    auditLog.record({
+      actor: userId,
+      action: "room.update_settings",
+      roomId,
+      details: { changes: data.settings, questionCount },
     });
+    if (updatedRoom && !updatedRoom.gameState.isActive) {
+      roomsManager.updateGameState(roomId, {
+        totalQuestions: questionCount,
+        difficulty: updatedRoom.settings.difficulty,
+      });
+    }
 
     this.broadcastToRoom(roomId, {
       type: WS_MESSAGE_TYPES.SETTINGS_UPDATED,
@@ -748,13 +1402,21 @@ class WebSocketManager {
 
   private handleUpdateProfile(ws: ServerWebSocket<WebSocketData>, data: { avatarId?: string }): void {
     const { userId, roomId } = ws.data;
-    if (!userId) return;
+    if (!userId) {
+      return;
+    }
+
+    if (!this.consumeRateLimit(ws, "UPDATE_PROFILE")) {
+      return;
+    }
 
     const updatedUser = usersManager.updateUser(userId, {
       avatarId: data.avatarId,
     });
 
-    if (!updatedUser || !roomId) return;
+    if (!updatedUser || !roomId) {
+      return;
+    }
 
     // Update the user in the room members as well
     const room = roomsManager.getRoom(roomId);
@@ -773,51 +1435,186 @@ class WebSocketManager {
     }
   }
 
+  /** The daily challenge is solo, so it can't be played from inside a room */
+  private canPlayDailyChallenge(ws: ServerWebSocket<WebSocketData>, context: string): boolean {
+    if (ws.data.roomId || ws.data.relayTo) {
+      const error = ErrorHandler.createRoomError("Leave your room to play the daily challenge", ErrorCode.USER_ALREADY_IN_ROOM);
+      ErrorHandler.handleWebSocketError(ws, error, context);
+      return false;
+    }
+
+    return this.consumeRateLimit(ws, "DAILY_CHALLENGE");
+  }
+
+  private handleDailyChallengeStart(ws: ServerWebSocket<WebSocketData>, data: DailyChallengeStartData): void {
+    const { userId } = ws.data;
+    if (!userId || !this.canPlayDailyChallenge(ws, "daily_challenge_start")) {
+      return;
+    }
+
+    const username = data.username || usersManager.getUser(userId)?.username;
+    if (!username) {
+      const error = ErrorHandler.createValidationError("Username is required");
+      ErrorHandler.handleWebSocketError(ws, error, "daily_challenge_start");
+      return;
+    }
+
+    try {
+      const questionData = dailyChallengeManager.startAttempt(userId, username);
+      ws.send(JSON.stringify({ type: WS_MESSAGE_TYPES.DAILY_CHALLENGE_QUESTION, data: questionData }));
+    } catch (error) {
+      ErrorHandler.handleWebSocketError(ws, error, "daily_challenge_start");
+    }
+  }
+
+  private handleDailyChallengeAnswer(ws: ServerWebSocket<WebSocketData>, data: DailyChallengeAnswerData): void {
+    const { userId } = ws.data;
+    if (!userId || !this.canPlayDailyChallenge(ws, "daily_challenge_answer")) {
+      return;
+    }
+
+    try {
+      const { result, complete } = dailyChallengeManager.submitAnswer(userId, data.questionId, data.answer);
+      ws.send(JSON.stringify({ type: WS_MESSAGE_TYPES.DAILY_CHALLENGE_ANSWER_RESULT, data: result }));
+      if (complete) {
+        ws.send(JSON.stringify({ type: WS_MESSAGE_TYPES.DAILY_CHALLENGE_COMPLETE, data: complete }));
+      }
+    } catch (error) {
+      ErrorHandler.handleWebSocketError(ws, error, "daily_challenge_answer");
+    }
+  }
+
   private handleKickUser(ws: ServerWebSocket<WebSocketData>, data: KickUserData): void {
     const { userId, roomId } = ws.data;
-    if (!userId || !roomId) return;
+    if (!userId || !roomId) {
+      return;
+    }
 
     const room = roomsManager.getRoom(roomId);
-    if (!room || room.host !== userId) return;
+    if (!room || room.host !== userId) {
+      return;
+    }
 
-    const targetUser = usersManager.getUser(data.userId);
-    if (targetUser) {
-      const updatedRoom = roomsManager.kickUserFromRoom(roomId, data.userId);
+    if (!this.consumeRateLimit(ws, "KICK_USER")) {
+      return;
+    }
 
-      if (updatedRoom) {
-        const wasHost = room.host === data.userId;
-        if (wasHost && updatedRoom.members.length > 0) {
-          const newHost = updatedRoom.members[0];
-          roomsManager.setNewHost(roomId, newHost.id);
-          usersManager.updateUser(newHost.id, { isAdmin: true });
-          this.broadcastToRoom(roomId, {
-            type: WS_MESSAGE_TYPES.HOST_CHANGED,
-            data: { newHost },
-          });
-        }
+    const reason = "Kicked by host";
+    if (this.kickUser(roomId, data.userId, reason)) {
+      auditLog.record({ actor: userId, action: "room.kick", target: data.userId, roomId, details: { reason } });
+    }
+  }
 
-        this.broadcastToRoom(
-          roomId,
-          {
-            type: WS_MESSAGE_TYPES.USER_KICKED,
-            data: { userId: data.userId, room: updatedRoom },
-          },
-          [data.userId]
-        );
+  kickUser(roomId: string, targetUserId: string, reason: string): boolean {
+    const room = roomsManager.getRoom(roomId);
+    const targetUser = usersManager.getUser(targetUserId);
+    if (!room || !targetUser) {
+      return false;
+    }
+
+    const updatedRoom = roomsManager.kickUserFromRoom(roomId, targetUserId);
+
+    if (updatedRoom) {
+      const wasHost = room.host === targetUserId;
+      if (wasHost && updatedRoom.members.length > 0) {
+        const newHost = updatedRoom.members[0];
+        roomsManager.setNewHost(roomId, newHost.id);
+        usersManager.updateUser(newHost.id, { isAdmin: true });
+        this.broadcastToRoom(roomId, {
+          type: WS_MESSAGE_TYPES.HOST_CHANGED,
+          data: { newHost },
+        });
       }
 
-      this.broadcastToUser(data.userId, {
-        type: WS_MESSAGE_TYPES.KICKED,
-        data: { reason: "Kicked by host" },
-      });
+      this.broadcastToRoom(
+        roomId,
+        {
+          type: WS_MESSAGE_TYPES.USER_KICKED,
+          data: { userId: targetUserId, room: gameManager.toClientRoom(updatedRoom) },
+        },
+        [targetUserId]
+      );
+    }
+
+    this.broadcastToUser(targetUserId, {
+      type: WS_MESSAGE_TYPES.KICKED,
+      data: { reason },
+    });
+
+    usersManager.updateUser(targetUserId, { roomId: "", isAdmin: false });
+    const targetWs = this.getConnection(targetUserId);
+    if (targetWs) {
+      targetWs.data.roomId = null;
+      targetWs.data.isAdmin = false;
+    }
+    this.releaseDetachedRelaySockets();
+
+    return true;
+  }
+
+  transferHost(roomId: string, newHostId: string): Room | null {
+    const room = roomsManager.getRoom(roomId);
+    if (!room || room.host === newHostId) {
+      return null;
+    }
+
+    const updatedRoom = roomsManager.setNewHost(roomId, newHostId);
+    const newHost = updatedRoom?.members.find((member) => member.id === newHostId);
+    if (!updatedRoom || !newHost) {
+      return null;
+    }
 
-      usersManager.updateUser(data.userId, { roomId: "", isAdmin: false });
-      const targetWs = this.getConnection(data.userId);
-      if (targetWs) {
-        targetWs.data.roomId = null;
-        targetWs.data.isAdmin = false;
+    usersManager.updateUser(room.host, { isAdmin: false });
+    usersManager.updateUser(newHostId, { isAdmin: true });
+
+    this.broadcastToRoom(roomId, {
+      type: WS_MESSAGE_TYPES.HOST_CHANGED,
+      data: { newHost },
+    });
+
+    return updatedRoom;
+  }
+
+  /** Ends any running game, detaches every member and spectator, and deletes the room */
+  closeRoom(roomId: string, reason: string): boolean {
+    const room = roomsManager.getRoom(roomId);
+    if (!room) {
+      return false;
+    }
+
+    if (room.gameState.isActive) {
+      gameManager.stopGame(roomId);
+    }
+
+    this.broadcastToRoom(roomId, {
+      type: WS_MESSAGE_TYPES.ROOM_CLOSED,
+      data: { roomId, reason, closedAt: Date.now() },
+    });
+
+    for (const member of [...room.members, ...room.spectators]) {
+      usersManager.updateUser(member.id, { roomId: "", isAdmin: false });
+      const memberWs = this.getConnection(member.id);
+      if (memberWs) {
+        memberWs.data.roomId = null;
+        memberWs.data.isAdmin = false;
       }
     }
+
+    roomsManager.delete(roomId);
+    this.releaseDetachedRelaySockets();
+    return true;
+  }
+
+  sendSystemMessage(roomId: string, message: string, level: SystemMessageData["level"]): boolean {
+    if (!roomsManager.getRoom(roomId)) {
+      return false;
+    }
+
+    this.broadcastToRoom(roomId, {
+      type: WS_MESSAGE_TYPES.SYSTEM_MESSAGE,
+      data: { message, level },
+    });
+    return true;
   }
 }
 
@@ -0,0 +1,49 @@
+import { MetricsRegistry } from './registry';
+
+export const metrics = new MetricsRegistry();
+
+export const wsMessagesTotal = metrics.counter({
+  name: 'flags_ws_messages_total',
+  help: 'WebSocket messages received, by message type',
+  labelNames: ['type'],
+});
+
+export const rateLimitRejectionsTotal = metrics.counter({
+  name: 'flags_rate_limit_rejections_total',
+  help: 'Actions rejected by the rate limiter',
+  labelNames: ['action'],
+});
+
+export const errorsTotal = metrics.counter({
+  name: 'flags_errors_total',
+  help: 'Errors handled, by error code',
+  labelNames: ['code'],
+});
+
+export const heartbeatRttSeconds = metrics.histogram({
+  name: 'flags_heartbeat_rtt_seconds',
+  help: 'Round-trip time between a heartbeat and its response',
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+});
+
+export const questionDurationSeconds = metrics.histogram({
+  name: 'flags_question_duration_seconds',
+  help: 'Time from a question being shown until its results, by game mode',
+  labelNames: ['mode'],
+  buckets: [1, 2, 5, 10, 15, 20, 30, 45, 60],
+});
+
+export const broadcastFanoutSeconds = metrics.histogram({
+  name: 'flags_broadcast_fanout_seconds',
+  help: 'Time spent delivering a room event to the local connections in that room',
+  buckets: [0.0001, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1],
+});
+
+export type { MetricLabels } from './registry';
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  METRICS_CONTENT_TYPE,
+  MetricsRegistry,
+} from './registry';
@@ -0,0 +1,265 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricOptions<L extends string> {
+  name: string;
+  help: string;
+  labelNames?: readonly L[];
+}
+
+interface GaugeOptions<L extends string> extends MetricOptions<L> {
+  /** Called on every scrape, for values that are cheaper to read than to track */
+  collect?: (gauge: Gauge<L>) => void;
+}
+
+interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  buckets?: number[];
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string;
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Number.POSITIVE_INFINITY) {
+    return '+Inf';
+  }
+  if (value === Number.NEGATIVE_INFINITY) {
+    return '-Inf';
+  }
+  return String(value);
+};
+
+abstract class LabelledMetric<L extends string, S> implements Metric {
+  readonly name: string;
+  protected readonly help: string;
+  protected readonly labelNames: readonly L[];
+  protected readonly series = new Map<
+    string,
+    { labels: MetricLabels; state: S }
+  >();
+
+  constructor(options: MetricOptions<L>) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  protected abstract readonly type: MetricType;
+  protected abstract createState(): S;
+  protected abstract renderSeries(labels: MetricLabels, state: S): string[];
+
+  protected getState(labels: Partial<Record<L, string>> = {}): S {
+    const normalized: MetricLabels = {};
+    for (const labelName of this.labelNames) {
+      normalized[labelName] = labels[labelName] ?? '';
+    }
+
+    const key = JSON.stringify(normalized);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: normalized, state: this.createState() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, state));
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Counter<L extends string = never> extends LabelledMetric<
+  L,
+  { value: number }
+> {
+  protected readonly type = 'counter';
+
+  protected createState() {
+    return { value: 0 };
+  }
+
+  inc(labels?: Partial<Record<L, string>>, amount = 1): void {
+    if (amount < 0) {
+      return;
+    }
+    this.getState(labels).value += amount;
+  }
+
+  protected renderSeries(
+    labels: MetricLabels,
+    state: { value: number }
+  ): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+export class Gauge<L extends string = never> extends LabelledMetric<
+  L,
+  { value: number }
+> {
+  protected readonly type = 'gauge';
+  private readonly collector?: (gauge: Gauge<L>) => void;
+
+  constructor(options: GaugeOptions<L>) {
+    super(options);
+    this.collector = options.collect;
+  }
+
+  protected createState() {
+    return { value: 0 };
+  }
+
+  set(labels: Partial<Record<L, string>> | undefined, value: number): void {
+    this.getState(labels).value = value;
+  }
+
+  inc(labels?: Partial<Record<L, string>>, amount = 1): void {
+    this.getState(labels).value += amount;
+  }
+
+  dec(labels?: Partial<Record<L, string>>, amount = 1): void {
+    this.getState(labels).value -= amount;
+  }
+
+  override render(): string {
+    if (this.collector) {
+      this.reset();
+      this.collector(this);
+    }
+    return super.render();
+  }
+
+  protected renderSeries(
+    labels: MetricLabels,
+    state: { value: number }
+  ): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends LabelledMetric<
+  L,
+  HistogramState
+> {
+  protected readonly type = 'histogram';
+  private readonly buckets: number[];
+
+  constructor(options: HistogramOptions<L>) {
+    super(options);
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  protected createState(): HistogramState {
+    return { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Partial<Record<L, string>> | undefined, value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+
+    const state = this.getState(labels);
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        state.bucketCounts[i]++;
+      }
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  /** Returns a function that observes the seconds elapsed since this call */
+  startTimer(labels?: Partial<Record<L, string>>): () => void {
+    const start = performance.now();
+    return () => this.observe(labels, (performance.now() - start) / 1000);
+  }
+
+  protected renderSeries(
+    labels: MetricLabels,
+    state: HistogramState
+  ): string[] {
+    const lines = this.buckets.map(
+      (bound, i) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${state.bucketCounts[i]}`
+    );
+    lines.push(
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${state.count}`
+    );
+    lines.push(
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`
+    );
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.register(new Counter<L>(options));
+  }
+
+  gauge<L extends string = never>(options: GaugeOptions<L>): Gauge<L> {
+    return this.register(new Gauge<L>(options));
+  }
+
+  histogram<L extends string = never>(
+    options: HistogramOptions<L>
+  ): Histogram<L> {
+    return this.register(new Histogram<L>(options));
+  }
+
+  render(): string {
+    const sections = Array.from(this.metrics.values()).map((metric) =>
+      metric.render()
+    );
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { parseIPRange } from '../utils/security/network';
+import { UserIdSchema } from '../utils/validation';
+
+export const BanTypeSchema = z.enum(['user', 'ip']);
+
+export const BanSchema = z.object({
+  id: z.string(),
+  type: BanTypeSchema,
+  /** User id for user bans; single address or CIDR range for IP bans */
+  target: z.string(),
+  reason: z.string(),
+  issuedBy: z.string(),
+  createdAt: z.number(),
+  expiresAt: z.number().nullable(),
+});
+
+export const CreateBanRequestSchema = z
+  .object({
+    type: BanTypeSchema,
+    target: z.string().trim().min(1).max(100),
+    reason: z.string().trim().min(1).max(500),
+    /** Defaults to the calling admin */
+    issuedBy: z.string().trim().min(1).max(100).optional(),
+    /** Omit for a permanent ban */
+    durationMs: z.number().int().positive().optional(),
+  })
+  .refine((ban) => ban.type !== 'ip' || parseIPRange(ban.target) !== null, {
+    message: 'IP bans require a valid address or CIDR range',
+    path: ['target'],
+  });
+
+export const ListBansQuerySchema = z.object({
+  includeExpired: z.enum(['true', 'false']).optional(),
+});
+
+export const SystemMessageLevelSchema = z.enum(['info', 'warning']);
+
+export const AdminCloseRoomRequestSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .default('Closed by an administrator'),
+});
+
+export const AdminKickUserRequestSchema = z.object({
+  userId: UserIdSchema,
+  reason: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .default('Removed by an administrator'),
+});
+
+export const AdminTransferHostRequestSchema = z.object({
+  userId: UserIdSchema,
+});
+
+export const AdminSystemMessageRequestSchema = z.object({
+  message: z.string().trim().min(1).max(500),
+  level: SystemMessageLevelSchema.default('info'),
+});
+
+export const AuditQuerySchema = z.object({
+  actor: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  target: z.string().min(1).optional(),
+  roomId: z.string().min(1).optional(),
+  since: z.coerce.number().int().nonnegative().optional(),
+  until: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export type BanType = z.infer<typeof BanTypeSchema>;
+export type Ban = z.infer<typeof BanSchema>;
+export type CreateBanRequest = z.infer<typeof CreateBanRequestSchema>;
+export type SystemMessageLevel = z.infer<typeof SystemMessageLevelSchema>;
+export type AuditQueryParams = z.infer<typeof AuditQuerySchema>;
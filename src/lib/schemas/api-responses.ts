@@ -28,6 +28,14 @@ export const RoomResponseSchema = z.object({
   room: z.unknown(),
 });
 
+export const SessionResponseSchema = z.object({
+  data: z.object({
+    userId: z.string(),
+    token: z.string(),
+    expiresAt: z.number(),
+  }),
+});
+
 export const ErrorResponseSchema = z.object({
   error: z.string(),
   message: z.string().optional(),
@@ -38,4 +46,5 @@ export type RoomsResponse = z.infer<typeof RoomsResponseSchema>;
 export type UsersResponse = z.infer<typeof UsersResponseSchema>;
 export type StatsResponse = z.infer<typeof StatsResponseSchema>;
 export type RoomResponse = z.infer<typeof RoomResponseSchema>;
+export type SessionResponse = z.infer<typeof SessionResponseSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
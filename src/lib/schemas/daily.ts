@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+/** UTC calendar day, e.g. 2026-10-19 */
+export const DailyChallengeDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const DailyAttemptAnswerSchema = z.object({
+  questionId: z.string(),
+  answer: z.string(),
+  isCorrect: z.boolean(),
+  /** Answered after the deadline; scored as wrong */
+  timedOut: z.boolean(),
+  timeToAnswer: z.number(),
+  pointsAwarded: z.number(),
+});
+
+export const DailyAttemptSchema = z.object({
+  date: DailyChallengeDateSchema,
+  userId: z.string(),
+  username: z.string(),
+  answers: z.array(DailyAttemptAnswerSchema),
+  currentQuestionIndex: z.number(),
+  questionStartedAt: z.number(),
+  score: z.number(),
+  correctAnswers: z.number(),
+  /** Sum of answer times, used to break ties on the leaderboard */
+  totalTimeMs: z.number(),
+  startedAt: z.number(),
+  completedAt: z.number().nullable(),
+});
+
+export const DailyLeaderboardEntrySchema = z.object({
+  rank: z.number(),
+  userId: z.string(),
+  username: z.string(),
+  score: z.number(),
+  correctAnswers: z.number(),
+  totalTimeMs: z.number(),
+  completedAt: z.number(),
+});
+
+export const DailyLeaderboardQuerySchema = z.object({
+  date: DailyChallengeDateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type DailyAttempt = z.infer<typeof DailyAttemptSchema>;
+export type DailyAttemptAnswer = z.infer<typeof DailyAttemptAnswerSchema>;
+export type DailyLeaderboardEntry = z.infer<typeof DailyLeaderboardEntrySchema>;
+export type DailyLeaderboardQuery = z.infer<typeof DailyLeaderboardQuerySchema>;
@@ -7,7 +7,13 @@ export {
   DifficultySchema,
   QuestionCountSchema,
   TimePerQuestionSchema,
+  QuestionTypeSchema,
+  QuestionTypeSettingSchema,
+  AnswerModeSchema,
+  OptionCountSchema,
+  CountryPoolSchema,
   RoomSettingsSchema,
+  RoomSettingsUpdateSchema,
 } from '../utils/validation';
 
 export {
@@ -16,19 +22,30 @@ export {
   SubmitAnswerDataSchema,
   UpdateSettingsDataSchema,
   KickUserDataSchema,
+  PromoteSpectatorDataSchema,
+  DailyChallengeStartDataSchema,
+  DailyChallengeAnswerDataSchema,
   WebSocketMessageSchema,
   type CreateRoomData,
   type JoinRoomData,
   type SubmitAnswerData,
   type UpdateSettingsData,
   type KickUserData,
+  type PromoteSpectatorData,
   type WebSocketMessage,
   type GameStartingData,
   type NewQuestionData,
   type AnswerSubmittedData,
   type QuestionResultsData,
   type GameEndedData,
-  type GameStoppedData
+  type GameStoppedData,
+  type HeartsUpdatedData,
+  type PlayerEliminatedData,
+  type DailyChallengeStartData,
+  type DailyChallengeAnswerData,
+  type DailyChallengeQuestionData,
+  type DailyChallengeAnswerResultData,
+  type DailyChallengeCompleteData
 } from './websockets';
 
 export {
@@ -37,11 +54,43 @@ export {
   UsersResponseSchema,
   StatsResponseSchema,
   RoomResponseSchema,
+  SessionResponseSchema,
   ErrorResponseSchema,
   type HealthResponse,
   type RoomsResponse,
   type UsersResponse,
   type StatsResponse,
   type RoomResponse,
+  type SessionResponse,
   type ErrorResponse
 } from './api-responses';
+
+export {
+  BanTypeSchema,
+  BanSchema,
+  CreateBanRequestSchema,
+  ListBansQuerySchema,
+  SystemMessageLevelSchema,
+  AdminCloseRoomRequestSchema,
+  AdminKickUserRequestSchema,
+  AdminTransferHostRequestSchema,
+  AdminSystemMessageRequestSchema,
+  AuditQuerySchema,
+  type BanType,
+  type Ban,
+  type CreateBanRequest,
+  type SystemMessageLevel,
+  type AuditQueryParams
+} from './admin';
+
+export {
+  DailyChallengeDateSchema,
+  DailyAttemptAnswerSchema,
+  DailyAttemptSchema,
+  DailyLeaderboardEntrySchema,
+  DailyLeaderboardQuerySchema,
+  type DailyAttempt,
+  type DailyAttemptAnswer,
+  type DailyLeaderboardEntry,
+  type DailyLeaderboardQuery
+} from './daily';
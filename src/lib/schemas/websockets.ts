@@ -6,8 +6,12 @@ import {
   AnswerSchema,
   InviteCodeSchema,
   RoomSettingsSchema,
+  RoomSettingsUpdateSchema,
+  QuestionTypeSchema,
+  AnswerModeSchema,
   DifficultySchema,
 } from "../utils/validation";
+import { DailyChallengeDateSchema } from "./daily";
 
 const BaseMessageSchema = z.object({
   type: z.string(),
@@ -27,13 +31,17 @@ export const JoinRoomDataSchema = z.object({
   avatarId: z.string().optional(),
 });
 
+export const PromoteSpectatorDataSchema = z.object({
+  userId: UserIdSchema,
+});
+
 export const SubmitAnswerDataSchema = z.object({
   answer: AnswerSchema,
   questionId: z.string(),
 });
 
 export const UpdateSettingsDataSchema = z.object({
-  settings: RoomSettingsSchema.partial(),
+  settings: RoomSettingsUpdateSchema,
 });
 
 export const KickUserDataSchema = z.object({
@@ -53,10 +61,15 @@ export const UserSchema = z.object({
   isAdmin: z.boolean(),
   lastActiveTime: z.string(),
   avatarId: z.string().optional(),
+  status: z.enum(["connected", "disconnected"]).optional(),
+  disconnectedAt: z.number().optional(),
 });
 
 export const GameQuestionSchema = z.object({
+  id: z.string(),
   index: z.number(),
+  type: QuestionTypeSchema,
+  answerMode: AnswerModeSchema,
   country: z.object({
     name: z.string(),
     code: z.string(),
@@ -67,19 +80,59 @@ export const GameQuestionSchema = z.object({
       code: z.string(),
     })
   ),
+  /** A country code, or the continent name for flag-to-continent questions */
   correctAnswer: z.string(),
+  /** Opaque handle for the flag being asked about; null when the options are the flags */
+  flagAssetId: z.string().nullable(),
   startTime: z.number(),
   endTime: z.number(),
 });
 
+// Client-facing question shape: never carries the correct answer. When the
+// options are flags (name-to-flag, capital-to-flag) the prompt is the country
+// name or capital and only the option codes are sent, so the answer can't be
+// found by matching labels.
+export const ClientQuestionSchema = GameQuestionSchema.pick({
+  id: true,
+  index: true,
+  type: true,
+  answerMode: true,
+  flagAssetId: true,
+  startTime: true,
+  endTime: true,
+}).extend({
+  prompt: z.string().nullable(),
+  options: z.array(
+    z.object({
+      name: z.string().optional(),
+      code: z.string(),
+    })
+  ),
+});
+
+export const PointsBreakdownSchema = z.object({
+  base: z.number(),
+  speedBonus: z.number(),
+  rankBonus: z.number(),
+});
+
+/** A typed answer that was close to, but not close enough to, an accepted spelling */
+export const NearMissSchema = z.object({
+  closestMatch: z.string(),
+  distance: z.number(),
+});
+
 export const GameAnswerSchema = z.object({
   userId: UserIdSchema,
   username: UsernameSchema,
   answer: AnswerSchema,
+  questionIndex: z.number(),
   timeToAnswer: z.number(),
   isCorrect: z.boolean(),
   pointsAwarded: z.number(),
+  pointsBreakdown: PointsBreakdownSchema,
   timestamp: z.number(),
+  nearMiss: NearMissSchema.optional(),
 });
 
 export const GameStateLeaderboardSchema = z.object({
@@ -103,6 +156,10 @@ export const GameStateSchema = z.object({
   gameStartTime: z.number().nullable(),
   gameEndTime: z.number().nullable(),
   usedCountries: z.array(z.string()),
+  /** Drives question generation; withheld from clients while the game runs */
+  seed: z.string().nullable(),
+  hearts: z.record(z.string(), z.number()),
+  eliminatedPlayers: z.array(UserIdSchema),
   questionTimer: z.any().nullable(), // Timer object,
   resultTimer: z.any().nullable(), // Timer object,
   leaderboard: z.array(GameStateLeaderboardSchema),
@@ -115,6 +172,7 @@ export const RoomSchema = z.object({
   inviteCode: InviteCodeSchema,
   gameState: GameStateSchema,
   members: z.array(UserSchema),
+  spectators: z.array(UserSchema).default([]),
   kickedUsers: z.array(UserIdSchema).default([]),
   createdAt: z.string(),
   settings: RoomSettingsSchema,
@@ -130,11 +188,18 @@ export const AuthSuccessDataSchema = z.object({
 export const RoomSuccessDataSchema = z.object({
   room: RoomSchema,
   user: UserSchema,
+  isSpectator: z.boolean().optional(),
 });
 
 export const UserJoinedDataSchema = z.object({
   user: UserSchema,
   room: RoomSchema,
+  isSpectator: z.boolean().optional(),
+});
+
+export const SpectatorPromotedDataSchema = z.object({
+  userId: UserIdSchema,
+  room: RoomSchema,
 });
 
 export const UserLeftDataSchema = z.object({
@@ -142,6 +207,16 @@ export const UserLeftDataSchema = z.object({
   room: RoomSchema.nullable(),
 });
 
+export const UserDisconnectedDataSchema = z.object({
+  userId: UserIdSchema,
+  reconnectDeadline: z.number(),
+});
+
+export const UserReconnectedDataSchema = z.object({
+  userId: UserIdSchema,
+  user: UserSchema,
+});
+
 export const UserKickedDataSchema = z.object({
   userId: UserIdSchema,
   room: RoomSchema.nullable(),
@@ -161,7 +236,7 @@ export const GameStartingDataSchema = z.object({
 });
 
 export const NewQuestionDataSchema = z.object({
-  question: GameQuestionSchema,
+  question: ClientQuestionSchema,
   totalQuestions: z.number(),
 });
 
@@ -177,6 +252,7 @@ export const AnswerSubmittedDataSchema = z.object({
 });
 
 export const QuestionResultsDataSchema = z.object({
+  questionId: z.string(),
   correctAnswer: z.string(),
   correctCountry: z.object({
     name: z.string(),
@@ -190,6 +266,8 @@ export const QuestionResultsDataSchema = z.object({
       isCorrect: z.boolean(),
       timeToAnswer: z.number(),
       pointsAwarded: z.number(),
+      pointsBreakdown: PointsBreakdownSchema,
+      nearMiss: NearMissSchema.optional(),
     })
   ),
   leaderboard: z.array(
@@ -208,6 +286,7 @@ export const QuestionResultsDataSchema = z.object({
 
 export const GameEndedDataSchema = z.object({
   leaderboard: z.array(GameStateLeaderboardSchema),
+  answers: z.array(GameAnswerSchema),
   gameStats: z.object({
     totalQuestions: z.number(),
     totalAnswers: z.number(),
@@ -219,6 +298,25 @@ export const GameEndedDataSchema = z.object({
   }),
 });
 
+export const GameStateSyncDataSchema = z.object({
+  roomId: z.string(),
+  phase: GameStateSchema.shape.phase,
+  isActive: z.boolean(),
+  currentQuestion: ClientQuestionSchema.nullable(),
+  currentQuestionIndex: z.number(),
+  totalQuestions: z.number(),
+  serverTime: z.number(),
+  deadline: z.number().nullable(),
+  resultTimer: QuestionResultsDataSchema.shape.timer.nullable(),
+  results: QuestionResultsDataSchema.nullable(),
+  myAnswer: GameAnswerSchema.nullable(),
+  isSpectator: z.boolean(),
+  score: z.number(),
+  hearts: z.number().nullable(),
+  isEliminated: z.boolean(),
+  leaderboard: z.array(GameStateLeaderboardSchema),
+});
+
 export const GameStoppedDataSchema = z.object({
   timestamp: z.number(),
 });
@@ -227,6 +325,19 @@ export const GameRestartedDataSchema = z.object({
   countdown: z.number(),
 });
 
+export const HeartsUpdatedDataSchema = z.object({
+  hearts: z.record(z.string(), z.number()),
+  heartsLost: z.array(UserIdSchema),
+  questionIndex: z.number(),
+});
+
+export const PlayerEliminatedDataSchema = z.object({
+  userId: UserIdSchema,
+  username: UsernameSchema,
+  questionIndex: z.number(),
+  remainingPlayers: z.number(),
+});
+
 export const SettingsUpdatedDataSchema = z.object({
   settings: RoomSettingsSchema,
 });
@@ -234,6 +345,7 @@ export const SettingsUpdatedDataSchema = z.object({
 export const ErrorDataSchema = z.object({
   message: z.string(),
   code: z.string().optional(),
+  requestId: z.string().optional(),
   details: z.any().optional(),
 });
 
@@ -248,6 +360,54 @@ export const RoomExpiredDataSchema = z.object({
   expiredAt: z.number(),
 });
 
+export const RoomClosedDataSchema = z.object({
+  roomId: z.string(),
+  reason: z.string(),
+  closedAt: z.number(),
+});
+
+export const SystemMessageDataSchema = z.object({
+  message: z.string(),
+  level: z.enum(["info", "warning"]),
+});
+
+export const DailyChallengeStartDataSchema = z.object({
+  username: UsernameSchema.optional(),
+});
+
+export const DailyChallengeAnswerDataSchema = z.object({
+  questionId: z.string(),
+  answer: AnswerSchema,
+});
+
+export const DailyChallengeQuestionDataSchema = z.object({
+  date: DailyChallengeDateSchema,
+  question: ClientQuestionSchema,
+  totalQuestions: z.number(),
+  score: z.number(),
+});
+
+export const DailyChallengeAnswerResultDataSchema = z.object({
+  date: DailyChallengeDateSchema,
+  questionId: z.string(),
+  isCorrect: z.boolean(),
+  timedOut: z.boolean(),
+  correctAnswer: z.string(),
+  pointsAwarded: z.number(),
+  score: z.number(),
+  nextQuestion: ClientQuestionSchema.nullable(),
+});
+
+export const DailyChallengeCompleteDataSchema = z.object({
+  date: DailyChallengeDateSchema,
+  score: z.number(),
+  correctAnswers: z.number(),
+  totalQuestions: z.number(),
+  totalTimeMs: z.number(),
+  rank: z.number().nullable(),
+  share: z.string(),
+});
+
 // WebSocket Message Schema with all possible types
 export const WebSocketMessageSchema = z.discriminatedUnion("type", [
   // Client-to-server messages
@@ -259,6 +419,14 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("JOIN_ROOM"),
     data: JoinRoomDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("JOIN_AS_SPECTATOR"),
+    data: JoinRoomDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("PROMOTE_SPECTATOR"),
+    data: PromoteSpectatorDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.literal("SUBMIT_ANSWER"),
     data: SubmitAnswerDataSchema,
@@ -275,6 +443,14 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("UPDATE_PROFILE"),
     data: UpdateProfileDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("DAILY_CHALLENGE_START"),
+    data: DailyChallengeStartDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("DAILY_CHALLENGE_ANSWER"),
+    data: DailyChallengeAnswerDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.enum(["LEAVE_ROOM", "START_GAME", "STOP_GAME", "RESTART_GAME", "HEARTBEAT_RESPONSE"]),
     data: z.record(z.string(), z.unknown()).optional(),
@@ -285,6 +461,10 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("AUTH_SUCCESS"),
     data: AuthSuccessDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("GAME_STATE_SYNC"),
+    data: GameStateSyncDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.literal("CREATE_ROOM_SUCCESS"),
     data: RoomSuccessDataSchema,
@@ -301,6 +481,14 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("USER_LEFT"),
     data: UserLeftDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("USER_DISCONNECTED"),
+    data: UserDisconnectedDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("USER_RECONNECTED"),
+    data: UserReconnectedDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.literal("USER_KICKED"),
     data: UserKickedDataSchema,
@@ -309,6 +497,10 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("HOST_CHANGED"),
     data: HostChangedDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("SPECTATOR_PROMOTED"),
+    data: SpectatorPromotedDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.literal("KICKED"),
     data: KickedDataSchema,
@@ -338,6 +530,19 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     data: SettingsUpdatedDataSchema,
   }),
 
+  BaseMessageSchema.extend({
+    type: z.literal("DAILY_CHALLENGE_QUESTION"),
+    data: DailyChallengeQuestionDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("DAILY_CHALLENGE_ANSWER_RESULT"),
+    data: DailyChallengeAnswerResultDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("DAILY_CHALLENGE_COMPLETE"),
+    data: DailyChallengeCompleteDataSchema,
+  }),
+
   BaseMessageSchema.extend({
     type: z.literal("ERROR"),
     data: ErrorDataSchema,
@@ -350,6 +555,14 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("GAME_RESTARTED"),
     data: GameRestartedDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("HEARTS_UPDATED"),
+    data: HeartsUpdatedDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("PLAYER_ELIMINATED"),
+    data: PlayerEliminatedDataSchema,
+  }),
   BaseMessageSchema.extend({
     type: z.literal("HEARTBEAT"),
     data: z.record(z.string(), z.unknown()).optional(),
@@ -363,6 +576,14 @@ export const WebSocketMessageSchema = z.discriminatedUnion("type", [
     type: z.literal("ROOM_EXPIRED"),
     data: RoomExpiredDataSchema,
   }),
+  BaseMessageSchema.extend({
+    type: z.literal("ROOM_CLOSED"),
+    data: RoomClosedDataSchema,
+  }),
+  BaseMessageSchema.extend({
+    type: z.literal("SYSTEM_MESSAGE"),
+    data: SystemMessageDataSchema,
+  }),
 ]);
 
 export type CreateRoomData = z.infer<typeof CreateRoomDataSchema>;
@@ -370,8 +591,11 @@ export type JoinRoomData = z.infer<typeof JoinRoomDataSchema>;
 export type SubmitAnswerData = z.infer<typeof SubmitAnswerDataSchema>;
 export type UpdateSettingsData = z.infer<typeof UpdateSettingsDataSchema>;
 export type KickUserData = z.infer<typeof KickUserDataSchema>;
+export type PromoteSpectatorData = z.infer<typeof PromoteSpectatorDataSchema>;
 export type User = z.infer<typeof UserSchema>;
 export type GameQuestion = z.infer<typeof GameQuestionSchema>;
+export type ClientQuestion = z.infer<typeof ClientQuestionSchema>;
+export type PointsBreakdown = z.infer<typeof PointsBreakdownSchema>;
 export type GameAnswer = z.infer<typeof GameAnswerSchema>;
 export type GameStateLeaderboard = z.infer<typeof GameStateLeaderboardSchema>;
 export type GameState = z.infer<typeof GameStateSchema>;
@@ -380,8 +604,11 @@ export type AuthSuccessData = z.infer<typeof AuthSuccessDataSchema>;
 export type RoomSuccessData = z.infer<typeof RoomSuccessDataSchema>;
 export type UserJoinedData = z.infer<typeof UserJoinedDataSchema>;
 export type UserLeftData = z.infer<typeof UserLeftDataSchema>;
+export type UserDisconnectedData = z.infer<typeof UserDisconnectedDataSchema>;
+export type UserReconnectedData = z.infer<typeof UserReconnectedDataSchema>;
 export type UserKickedData = z.infer<typeof UserKickedDataSchema>;
 export type HostChangedData = z.infer<typeof HostChangedDataSchema>;
+export type SpectatorPromotedData = z.infer<typeof SpectatorPromotedDataSchema>;
 export type KickedData = z.infer<typeof KickedDataSchema>;
 export type GameStartingData = z.infer<typeof GameStartingDataSchema>;
 export type NewQuestionData = z.infer<typeof NewQuestionDataSchema>;
@@ -389,10 +616,20 @@ export type AnswerSubmittedData = z.infer<typeof AnswerSubmittedDataSchema>;
 export type QuestionResultsData = z.infer<typeof QuestionResultsDataSchema>;
 export type GameEndedData = z.infer<typeof GameEndedDataSchema>;
 export type SettingsUpdatedData = z.infer<typeof SettingsUpdatedDataSchema>;
+export type GameStateSyncData = z.infer<typeof GameStateSyncDataSchema>;
 export type GameStoppedData = z.infer<typeof GameStoppedDataSchema>;
 export type GameRestartedData = z.infer<typeof GameRestartedDataSchema>;
+export type HeartsUpdatedData = z.infer<typeof HeartsUpdatedDataSchema>;
+export type PlayerEliminatedData = z.infer<typeof PlayerEliminatedDataSchema>;
 
 export type ErrorData = z.infer<typeof ErrorDataSchema>;
 export type WebSocketMessage = z.infer<typeof WebSocketMessageSchema>;
 export type RoomTtlWarningData = z.infer<typeof RoomTtlWarningDataSchema>;
 export type RoomExpiredData = z.infer<typeof RoomExpiredDataSchema>;
+export type RoomClosedData = z.infer<typeof RoomClosedDataSchema>;
+export type SystemMessageData = z.infer<typeof SystemMessageDataSchema>;
+export type DailyChallengeStartData = z.infer<typeof DailyChallengeStartDataSchema>;
+export type DailyChallengeAnswerData = z.infer<typeof DailyChallengeAnswerDataSchema>;
+export type DailyChallengeQuestionData = z.infer<typeof DailyChallengeQuestionDataSchema>;
+export type DailyChallengeAnswerResultData = z.infer<typeof DailyChallengeAnswerResultDataSchema>;
+export type DailyChallengeCompleteData = z.infer<typeof DailyChallengeCompleteDataSchema>;
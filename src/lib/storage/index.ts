@@ -0,0 +1,19 @@
+import { env } from '../utils/env';
+import { MemoryStorage } from './memory';
+import { SqliteStorage } from './sqlite';
+import type { StorageAdapter } from './types';
+
+const createStorage = (): StorageAdapter => {
+  switch (env.STORAGE_DRIVER) {
+    case 'sqlite':
+      return new SqliteStorage(env.SQLITE_PATH);
+    default:
+      return new MemoryStorage();
+  }
+};
+
+export const storage = createStorage();
+
+export { MemoryStorage } from './memory';
+export { SqliteStorage } from './sqlite';
+export type { FinishedGameRecord, StorageAdapter } from './types';
@@ -0,0 +1,89 @@
+import type { Ban, DailyAttempt, Room, User } from '../../types/entities';
+import type { FinishedGameRecord, StorageAdapter } from './types';
+
+const MAX_FINISHED_GAMES = 1000;
+
+export class MemoryStorage implements StorageAdapter {
+  private rooms = new Map<string, Room>();
+  private users = new Map<string, User>();
+  private finishedGames: FinishedGameRecord[] = [];
+  private bans = new Map<string, Ban>();
+  private dailyAttempts = new Map<string, DailyAttempt>();
+
+  loadRooms(): Room[] {
+    return Array.from(this.rooms.values(), (room) => structuredClone(room));
+  }
+
+  saveRoom(room: Room): void {
+    this.rooms.set(room.id, structuredClone(room));
+  }
+
+  deleteRoom(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  loadUsers(): User[] {
+    return Array.from(this.users.values(), (user) => structuredClone(user));
+  }
+
+  saveUser(user: User): void {
+    this.users.set(user.id, structuredClone(user));
+  }
+
+  deleteUser(userId: string): void {
+    this.users.delete(userId);
+  }
+
+  saveFinishedGame(record: FinishedGameRecord): void {
+    this.finishedGames.push(structuredClone(record));
+    if (this.finishedGames.length > MAX_FINISHED_GAMES) {
+      this.finishedGames.shift();
+    }
+  }
+
+  getFinishedGames(limit = 50): FinishedGameRecord[] {
+    return this.finishedGames.slice(-limit).reverse();
+  }
+
+  loadBans(): Ban[] {
+    return Array.from(this.bans.values(), (ban) => structuredClone(ban));
+  }
+
+  saveBan(ban: Ban): void {
+    this.bans.set(ban.id, structuredClone(ban));
+  }
+
+  deleteBan(banId: string): void {
+    this.bans.delete(banId);
+  }
+
+  loadDailyAttempts(date: string): DailyAttempt[] {
+    return Array.from(this.dailyAttempts.values())
+      .filter((attempt) => attempt.date === date)
+      .map((attempt) => structuredClone(attempt));
+  }
+
+  loadDailyAttempt(date: string, userId: string): DailyAttempt | null {
+    const attempt = this.dailyAttempts.get(`${date}:${userId}`);
+    return attempt ? structuredClone(attempt) : null;
+  }
+
+  createDailyAttempt(attempt: DailyAttempt): boolean {
+    if (this.dailyAttempts.has(`${attempt.date}:${attempt.userId}`)) {
+      return false;
+    }
+    this.saveDailyAttempt(attempt);
+    return true;
+  }
+
+  saveDailyAttempt(attempt: DailyAttempt): void {
+    this.dailyAttempts.set(
+      `${attempt.date}:${attempt.userId}`,
+      structuredClone(attempt)
+    );
+  }
+
+  close(): void {
+    // Nothing to release; the data goes with the process
+  }
+}
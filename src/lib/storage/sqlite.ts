@@ -0,0 +1,168 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Ban, DailyAttempt, Room, User } from '../../types/entities';
+import type { FinishedGameRecord, StorageAdapter } from './types';
+
+export class SqliteStorage implements StorageAdapter {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rooms (
+        id TEXT PRIMARY KEY,
+        invite_code TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS finished_games (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        ended_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS finished_games_ended_at ON finished_games (ended_at);
+      CREATE TABLE IF NOT EXISTS bans (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        target TEXT NOT NULL,
+        expires_at INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS daily_attempts (
+        date TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (date, user_id)
+      );
+    `);
+  }
+
+  loadRooms(): Room[] {
+    const rows = this.db
+      .query<{ data: string }, []>('SELECT data FROM rooms')
+      .all();
+    return rows.map((row) => JSON.parse(row.data) as Room);
+  }
+
+  saveRoom(room: Room): void {
+    this.db
+      .query(
+        `INSERT INTO rooms (id, invite_code, created_at, data) VALUES (?1, ?2, ?3, ?4)
+         ON CONFLICT(id) DO UPDATE SET invite_code = excluded.invite_code, data = excluded.data`
+      )
+      .run(room.id, room.inviteCode, room.createdAt, JSON.stringify(room));
+  }
+
+  deleteRoom(roomId: string): void {
+    this.db.query('DELETE FROM rooms WHERE id = ?1').run(roomId);
+  }
+
+  loadUsers(): User[] {
+    const rows = this.db
+      .query<{ data: string }, []>('SELECT data FROM users')
+      .all();
+    return rows.map((row) => JSON.parse(row.data) as User);
+  }
+
+  saveUser(user: User): void {
+    this.db
+      .query(
+        `INSERT INTO users (id, room_id, data) VALUES (?1, ?2, ?3)
+         ON CONFLICT(id) DO UPDATE SET room_id = excluded.room_id, data = excluded.data`
+      )
+      .run(user.id, user.roomId, JSON.stringify(user));
+  }
+
+  deleteUser(userId: string): void {
+    this.db.query('DELETE FROM users WHERE id = ?1').run(userId);
+  }
+
+  saveFinishedGame(record: FinishedGameRecord): void {
+    this.db
+      .query(
+        'INSERT INTO finished_games (id, room_id, ended_at, data) VALUES (?1, ?2, ?3, ?4)'
+      )
+      .run(record.id, record.roomId, record.endedAt, JSON.stringify(record));
+  }
+
+  getFinishedGames(limit = 50): FinishedGameRecord[] {
+    const rows = this.db
+      .query<{ data: string }, [number]>(
+        'SELECT data FROM finished_games ORDER BY ended_at DESC LIMIT ?1'
+      )
+      .all(limit);
+    return rows.map((row) => JSON.parse(row.data) as FinishedGameRecord);
+  }
+
+  loadBans(): Ban[] {
+    const rows = this.db
+      .query<{ data: string }, []>('SELECT data FROM bans')
+      .all();
+    return rows.map((row) => JSON.parse(row.data) as Ban);
+  }
+
+  saveBan(ban: Ban): void {
+    this.db
+      .query(
+        `INSERT INTO bans (id, type, target, expires_at, data) VALUES (?1, ?2, ?3, ?4, ?5)
+         ON CONFLICT(id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data`
+      )
+      .run(ban.id, ban.type, ban.target, ban.expiresAt, JSON.stringify(ban));
+  }
+
+  deleteBan(banId: string): void {
+    this.db.query('DELETE FROM bans WHERE id = ?1').run(banId);
+  }
+
+  loadDailyAttempts(date: string): DailyAttempt[] {
+    const rows = this.db
+      .query<{ data: string }, [string]>(
+        'SELECT data FROM daily_attempts WHERE date = ?1'
+      )
+      .all(date);
+    return rows.map((row) => JSON.parse(row.data) as DailyAttempt);
+  }
+
+  loadDailyAttempt(date: string, userId: string): DailyAttempt | null {
+    const row = this.db
+      .query<{ data: string }, [string, string]>(
+        'SELECT data FROM daily_attempts WHERE date = ?1 AND user_id = ?2'
+      )
+      .get(date, userId);
+    return row ? (JSON.parse(row.data) as DailyAttempt) : null;
+  }
+
+  createDailyAttempt(attempt: DailyAttempt): boolean {
+    const result = this.db
+      .query(
+        'INSERT INTO daily_attempts (date, user_id, data) VALUES (?1, ?2, ?3) ON CONFLICT(date, user_id) DO NOTHING'
+      )
+      .run(attempt.date, attempt.userId, JSON.stringify(attempt));
+    return result.changes > 0;
+  }
+
+  saveDailyAttempt(attempt: DailyAttempt): void {
+    this.db
+      .query(
+        `INSERT INTO daily_attempts (date, user_id, data) VALUES (?1, ?2, ?3)
+         ON CONFLICT(date, user_id) DO UPDATE SET data = excluded.data`
+      )
+      .run(attempt.date, attempt.userId, JSON.stringify(attempt));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,42 @@
+import type {
+  Ban,
+  DailyAttempt,
+  GameMode,
+  GameStateLeaderboard,
+  Room,
+  User,
+} from '../../types/entities';
+import type { Difficulty } from '../constants/game-constants';
+
+export interface FinishedGameRecord {
+  id: string;
+  roomId: string;
+  inviteCode: string;
+  gameMode: GameMode | undefined;
+  difficulty: Difficulty;
+  totalQuestions: number;
+  startedAt: number | null;
+  endedAt: number;
+  leaderboard: GameStateLeaderboard[];
+}
+
+export interface StorageAdapter {
+  loadRooms(): Room[];
+  saveRoom(room: Room): void;
+  deleteRoom(roomId: string): void;
+  loadUsers(): User[];
+  saveUser(user: User): void;
+  deleteUser(userId: string): void;
+  saveFinishedGame(record: FinishedGameRecord): void;
+  /** Most recent first */
+  getFinishedGames(limit?: number): FinishedGameRecord[];
+  loadBans(): Ban[];
+  saveBan(ban: Ban): void;
+  deleteBan(banId: string): void;
+  loadDailyAttempts(date: string): DailyAttempt[];
+  loadDailyAttempt(date: string, userId: string): DailyAttempt | null;
+  /** Stores a new attempt unless the user already has one for that date; false if they do */
+  createDailyAttempt(attempt: DailyAttempt): boolean;
+  saveDailyAttempt(attempt: DailyAttempt): void;
+  close(): void;
+}
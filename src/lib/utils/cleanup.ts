@@ -4,6 +4,7 @@ import { gameManager } from '../managers/game-management';
 import { logger } from './logger';
 import { MAX_ROOM_LIFETIME_MS } from '../constants/game-constants';
 import { webSocketManager } from '../managers/websocket-management';
+import { bansManager } from '../managers/ban-management';
 import { WS_MESSAGE_TYPES } from '../constants/ws-message-types';
 
 interface CleanupConfig {
@@ -81,6 +82,11 @@ class CleanupService {
         this.cleanupExpiredRooms(),
       ]);
 
+      const expiredBans = bansManager.pruneExpired();
+      if (expiredBans > 0) {
+        logger.debug(`Pruned ${expiredBans} expired bans`);
+      }
+
       const duration = Date.now() - startTime;
       const removedRooms = removedEmptyRooms + removedExpiredRooms;
       
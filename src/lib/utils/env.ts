@@ -2,14 +2,45 @@ import { z } from 'zod';
 
 export const EnvSchema = z.object({
   PORT: z.coerce.number().default(3001),
-  NODE_ENV: z.enum(['development', 'production', 'staging']).default('development'),
+  NODE_ENV: z.enum(['development', 'production', 'staging', 'test']).default('development'),
   ADMIN_API_KEY: z.string().optional(),
+  FLAG_ASSET_BASE_URL: z.url().default('https://flagcdn.com'),
+  RECONNECT_GRACE_PERIOD_MS: z.coerce.number().min(0).default(30_000),
+  STORAGE_DRIVER: z.enum(['memory', 'sqlite']).default('memory'),
+  SQLITE_PATH: z.string().default('data/flags.sqlite'),
+  ROOM_BUS_DRIVER: z.enum(['loopback', 'redis']).default('loopback'),
+  REDIS_URL: z.string().default('redis://localhost:6379'),
+  INSTANCE_ID: z.string().min(1).optional(),
+  SESSION_TOKEN_SECRETS: z.string().optional(),
+  SESSION_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60),
+  DAILY_CHALLENGE_SECRET: z.string().optional(),
+  AUDIT_SINK: z.enum(['memory', 'jsonl']).default('memory'),
+  AUDIT_LOG_PATH: z.string().default('data/audit.jsonl'),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  LOG_FORMAT: z.enum(['json', 'pretty']).optional(),
+  /** Comma-separated IPs/CIDRs whose x-forwarded-for header is believed */
+  TRUSTED_PROXIES: z.string().default(''),
 });
 
 export const env = EnvSchema.parse({
   PORT: process.env.PORT,
   NODE_ENV: process.env.NODE_ENV,
   ADMIN_API_KEY: process.env.ADMIN_API_KEY,
+  FLAG_ASSET_BASE_URL: process.env.FLAG_ASSET_BASE_URL,
+  RECONNECT_GRACE_PERIOD_MS: process.env.RECONNECT_GRACE_PERIOD_MS,
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+  SQLITE_PATH: process.env.SQLITE_PATH,
+  ROOM_BUS_DRIVER: process.env.ROOM_BUS_DRIVER,
+  REDIS_URL: process.env.REDIS_URL,
+  INSTANCE_ID: process.env.INSTANCE_ID,
+  SESSION_TOKEN_SECRETS: process.env.SESSION_TOKEN_SECRETS,
+  SESSION_TOKEN_TTL_SECONDS: process.env.SESSION_TOKEN_TTL_SECONDS,
+  DAILY_CHALLENGE_SECRET: process.env.DAILY_CHALLENGE_SECRET,
+  AUDIT_SINK: process.env.AUDIT_SINK,
+  AUDIT_LOG_PATH: process.env.AUDIT_LOG_PATH,
+  LOG_LEVEL: process.env.LOG_LEVEL,
+  LOG_FORMAT: process.env.LOG_FORMAT,
+  TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
 });
 
 export const isDevelopment = env.NODE_ENV === 'development';
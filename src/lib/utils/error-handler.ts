@@ -1,6 +1,8 @@
 import { logger } from './logger';
 import { getCorsHeaders } from './security/cors';
 import { WS_MESSAGE_TYPES } from '../constants/ws-message-types';
+import { errorsTotal } from '../metrics';
+import { getRequestContext } from './request-context';
 
 export enum ErrorCode {
   // Client errors (4xx)
@@ -31,7 +33,9 @@ export enum ErrorCode {
   USER_ALREADY_EXISTS = 'USER_ALREADY_EXISTS',
   USERNAME_TAKEN = 'USERNAME_TAKEN',
   KICKED_FROM_ROOM = 'KICKED_FROM_ROOM',
-  SESSION_ALREADY_STARTED = 'SESSION_ALREADY_STARTED'
+  USER_BANNED = 'USER_BANNED',
+  SESSION_ALREADY_STARTED = 'SESSION_ALREADY_STARTED',
+  DAILY_CHALLENGE_COMPLETED = 'DAILY_CHALLENGE_COMPLETED'
 }
 
 export interface ErrorDetails {
@@ -111,12 +115,13 @@ export class ErrorHandler {
     this.logError(appError);
     this.updateErrorMetrics(appError);
 
+    const resolvedRequestId = appError.requestId ?? requestId ?? getRequestContext()?.requestId;
     const responseBody = {
       error: {
         code: appError.code,
         message: appError.message,
         timestamp: appError.timestamp,
-        ...(appError.requestId && { requestId: appError.requestId }),
+        ...(resolvedRequestId && { requestId: resolvedRequestId }),
         ...(appError.details && { details: appError.details })
       }
     };
@@ -160,6 +165,7 @@ export class ErrorHandler {
     this.logError(appError);
     this.updateErrorMetrics(appError);
 
+    const requestId = appError.requestId ?? getRequestContext()?.requestId;
     try {
       ws.send(JSON.stringify({
         type: WS_MESSAGE_TYPES.ERROR,
@@ -167,6 +173,7 @@ export class ErrorHandler {
           code: appError.code,
           message: appError.message,
           timestamp: appError.timestamp,
+          ...(requestId && { requestId }),
           ...(appError.details && {
             details: appError.details
           })
@@ -180,25 +187,25 @@ export class ErrorHandler {
   private static logError(error: AppError): void {
     const logData = {
       code: error.code,
-      message: error.message,
       statusCode: error.statusCode,
-      details: error.details,
-      requestId: error.requestId,
+      ...(error.details && { details: error.details }),
+      ...(error.requestId && { requestId: error.requestId }),
       //stack: error.stack
     };
 
     if (error.statusCode >= 500) {
-      logger.error('Server error:', logData);
+      logger.error(`Server error: ${error.message}`, logData);
     } else if (error.statusCode >= 400) {
-      logger.warn('Client error:', logData);
+      logger.warn(`Client error: ${error.message}`, logData);
     } else {
-      logger.info('Error handled:', logData);
+      logger.info(`Error handled: ${error.message}`, logData);
     }
   }
 
   private static updateErrorMetrics(error: AppError): void {
     const currentCount = this.errorCounts.get(error.code) || 0;
     this.errorCounts.set(error.code, currentCount + 1);
+    errorsTotal.inc({ code: error.code });
   }
 
   static getErrorStats(): {
@@ -254,6 +261,15 @@ export class ErrorHandler {
     });
   }
 
+  static createBannedError(reason: string, expiresAt: number | null): AppError {
+    return new AppError({
+      code: ErrorCode.USER_BANNED,
+      message: 'You have been banned',
+      statusCode: 403,
+      details: { reason, expiresAt }
+    });
+  }
+
   static createRateLimitError(retryAfter?: number, details?: Record<string, any>): AppError {
     return new AppError({
       code: ErrorCode.RATE_LIMIT_EXCEEDED,
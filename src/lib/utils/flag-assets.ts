@@ -0,0 +1,40 @@
+import { env } from './env';
+import { AppError, ErrorCode } from './error-handler';
+
+interface FlagAsset {
+  body: ArrayBuffer;
+  contentType: string;
+}
+
+const flagCache = new Map<string, FlagAsset>();
+
+/**
+ * Fetch a flag image from the upstream asset host so clients never see the
+ * country code behind a question's opaque flag asset id.
+ */
+export const fetchFlagAsset = async (
+  countryCode: string
+): Promise<FlagAsset> => {
+  const cacheKey = countryCode.toLowerCase();
+  const cached = flagCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`${env.FLAG_ASSET_BASE_URL}/${cacheKey}.svg`);
+  if (!response.ok) {
+    throw new AppError({
+      code: ErrorCode.EXTERNAL_SERVICE_ERROR,
+      message: 'Failed to load flag asset',
+      statusCode: 502,
+      details: { status: response.status },
+    });
+  }
+
+  const asset: FlagAsset = {
+    body: await response.arrayBuffer(),
+    contentType: response.headers.get('content-type') || 'image/svg+xml',
+  };
+  flagCache.set(cacheKey, asset);
+  return asset;
+};
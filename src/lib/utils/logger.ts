@@ -1,4 +1,23 @@
-type LogLevel = 'info' | 'warn' | 'error' | 'debug';
+import { env, isDevelopment } from './env';
+import { getRequestContext } from './request-context';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Fields attached to every line written by a logger and its children */
+export interface LogBindings {
+  requestId?: string;
+  connectionId?: string;
+  userId?: string | null;
+  roomId?: string | null;
+  [key: string]: unknown;
+}
+
+const levelPriority: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
 
 const levelColors: Record<LogLevel, string> = {
   info: '\x1b[36m',   // cyan
@@ -7,26 +26,123 @@ const levelColors: Record<LogLevel, string> = {
   debug: '\x1b[35m',  // magenta
 };
 
-function formatMessage(level: LogLevel, message: string, ...args: any[]) {
-  const timestamp = new Date().toISOString();
-  const color = levelColors[level] || '';
-  const reset = '\x1b[0m';
-  return `${color}[${timestamp}] [${level.toUpperCase()}]${reset} ${message}`;
-}
+const consoleMethods: Record<LogLevel, (...args: any[]) => void> = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+const minLevel: LogLevel = env.LOG_LEVEL ?? (process.env.DEBUG ? 'debug' : 'info');
+const format = env.LOG_FORMAT ?? (isDevelopment ? 'pretty' : 'json');
+
+const reservedKeys = new Set(['timestamp', 'level', 'message']);
 
-export const logger = {
-  info: (message: string, ...args: any[]) => {
-    console.info(formatMessage('info', message), ...args);
-  },
-  warn: (message: string, ...args: any[]) => {
-    console.warn(formatMessage('warn', message), ...args);
-  },
-  error: (message: string, ...args: any[]) => {
-    console.error(formatMessage('error', message), ...args);
-  },
-  debug: (message: string, ...args: any[]) => {
-    if (process.env.DEBUG) {
-      console.debug(formatMessage('debug', message), ...args);
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const serializeError = (error: Error) => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+  ...('code' in error ? { code: (error as { code: unknown }).code } : {}),
+});
+
+const safeStringify = (record: Record<string, unknown>): string => {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(record, (_key, value) => {
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Error) return serializeError(value);
+    if (typeof value === 'object' && value !== null) {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
     }
-  },
-}; 
\ No newline at end of file
+    return value;
+  });
+};
+
+class Logger {
+  private readonly bindings: LogBindings;
+
+  constructor(bindings: LogBindings = {}) {
+    this.bindings = bindings;
+  }
+
+  /** Returns a logger whose lines also carry the given fields */
+  child(bindings: LogBindings): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.write('debug', message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.write('info', message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.write('warn', message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.write('error', message, args);
+  }
+
+  private write(level: LogLevel, message: string, args: unknown[]): void {
+    if (levelPriority[level] < levelPriority[minLevel]) return;
+
+    const fields = this.resolveFields();
+    if (format === 'json') {
+      consoleMethods[level](this.formatJson(level, message, fields, args));
+    } else {
+      consoleMethods[level](this.formatPretty(level, message, fields), ...args);
+    }
+  }
+
+  /** Request context first, so explicit bindings win */
+  private resolveFields(): LogBindings {
+    const fields: LogBindings = { ...getRequestContext(), ...this.bindings };
+    for (const key of Object.keys(fields)) {
+      if (fields[key] === undefined || fields[key] === null) delete fields[key];
+    }
+    return fields;
+  }
+
+  private formatJson(level: LogLevel, message: string, fields: LogBindings, args: unknown[]): string {
+    const record: Record<string, unknown> = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...fields,
+    };
+
+    const extra: unknown[] = [];
+    for (const arg of args) {
+      if (arg instanceof Error) {
+        record.error = serializeError(arg);
+      } else if (isPlainObject(arg) && !Object.keys(arg).some((key) => reservedKeys.has(key))) {
+        Object.assign(record, arg);
+      } else if (arg !== undefined) {
+        extra.push(arg);
+      }
+    }
+    if (extra.length > 0) {
+      record.args = extra;
+    }
+
+    return safeStringify(record);
+  }
+
+  private formatPretty(level: LogLevel, message: string, fields: LogBindings): string {
+    const timestamp = new Date().toISOString();
+    const color = levelColors[level];
+    const reset = '\x1b[0m';
+    const tags = Object.entries(fields).map(([key, value]) => `${key}=${String(value)}`).join(' ');
+    return `${color}[${timestamp}] [${level.toUpperCase()}]${reset} ${message}${tags ? ` \x1b[2m(${tags})${reset}` : ''}`;
+  }
+}
+
+export type { Logger };
+
+export const logger = new Logger();
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { nanoid } from 'nanoid';
+
+export interface RequestContext {
+  requestId: string;
+  connectionId?: string;
+  userId?: string | null;
+  roomId?: string | null;
+}
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+const INCOMING_REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,64}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const createRequestId = (): string => nanoid(12);
+
+/** Reuses an id set by an upstream proxy when it looks safe to log, otherwise mints one */
+export const resolveRequestId = (req: Request): string => {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  return incoming && INCOMING_REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : createRequestId();
+};
+
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T
+): T => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
@@ -3,6 +3,7 @@ interface SecurityConfig {
     development: string[];
     production: string[];
     staging: string[];
+    test: string[];
   };
   RATE_LIMITS: RateLimits;
   CORS: CorsConfig;
@@ -13,6 +14,14 @@ interface RateLimits {
   MESSAGE_SIZE_LIMIT: number;
   GLOBAL_MESSAGES_PER_CONNECTION: RateLimitRule;
   ACTIONS: Record<string, ActionLimitConfig>;
+  ESCALATION: EscalationConfig;
+}
+
+interface EscalationConfig {
+  /** Rejections allowed within the window before the offender is blocked */
+  VIOLATION_THRESHOLD: number;
+  VIOLATION_WINDOW_MS: number;
+  BLOCK_DURATION_MS: number;
 }
 
 interface RateLimitRule {
@@ -29,6 +38,7 @@ interface CorsConfig {
   ALLOW_CREDENTIALS: boolean;
   ALLOWED_METHODS: string[];
   ALLOWED_HEADERS: string[];
+  EXPOSED_HEADERS: string[];
 }
 
 export const SECURITY_CONFIG: SecurityConfig = {
@@ -36,6 +46,7 @@ export const SECURITY_CONFIG: SecurityConfig = {
     development: ["http://localhost:3000", "http://localhost:3001"],
     production: ["https://flags.games"],
     staging: ["https://staging.flags.games"],
+    test: ["http://localhost:3000"],
   },
 
   RATE_LIMITS: {
@@ -46,25 +57,55 @@ export const SECURITY_CONFIG: SecurityConfig = {
       resetIntervalMs: 10_000,
     },
     ACTIONS: {
+      // Only per IP: the caller may not have a session yet
+      ISSUE_SESSION: {
+        perIP: { limit: 20, resetIntervalMs: 60_000 },
+      },
       CREATE_ROOM: {
         perUser: { limit: 5, resetIntervalMs: 60_000 },
+        perIP: { limit: 15, resetIntervalMs: 60_000 },
       },
       JOIN_ROOM: {
         perUser: { limit: 20, resetIntervalMs: 60_000 },
+        perIP: { limit: 60, resetIntervalMs: 60_000 },
       },
       START_GAME: {
         perUser: { limit: 10, resetIntervalMs: 60_000 },
+        perIP: { limit: 30, resetIntervalMs: 60_000 },
       },
       SUBMIT_ANSWER: {
         perUser: { limit: 50, resetIntervalMs: 10_000 },
+        perIP: { limit: 150, resetIntervalMs: 10_000 },
       },
+      UPDATE_ROOM_SETTINGS: {
+        perUser: { limit: 20, resetIntervalMs: 60_000 },
+        perIP: { limit: 60, resetIntervalMs: 60_000 },
+      },
+      KICK_USER: {
+        perUser: { limit: 10, resetIntervalMs: 60_000 },
+        perIP: { limit: 30, resetIntervalMs: 60_000 },
+      },
+      UPDATE_PROFILE: {
+        perUser: { limit: 10, resetIntervalMs: 60_000 },
+        perIP: { limit: 30, resetIntervalMs: 60_000 },
+      },
+      DAILY_CHALLENGE: {
+        perUser: { limit: 30, resetIntervalMs: 60_000 },
+        perIP: { limit: 90, resetIntervalMs: 60_000 },
+      },
+    },
+    ESCALATION: {
+      VIOLATION_THRESHOLD: 10,
+      VIOLATION_WINDOW_MS: 60_000,
+      BLOCK_DURATION_MS: 5 * 60_000,
     },
   },
 
   CORS: {
     ALLOW_CREDENTIALS: false,
     ALLOWED_METHODS: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    ALLOWED_HEADERS: ["Content-Type", "Authorization", "X-Requested-With"],
+    ALLOWED_HEADERS: ["Content-Type", "Authorization", "X-Requested-With", "X-Request-Id"],
+    EXPOSED_HEADERS: ["X-Request-Id"],
   },
 };
 
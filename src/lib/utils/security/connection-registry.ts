@@ -0,0 +1,77 @@
+export interface IPConnectionCount {
+  ipAddress: string;
+  count: number;
+  connectionIds: string[];
+}
+
+/**
+ * Open WebSocket connections grouped by resolved client IP. Entries are keyed
+ * by connection id, so releasing a connection always decrements the IP it was
+ * registered under and releasing twice is harmless.
+ */
+class ConnectionRegistry {
+  private connections = new Map<string, string>();
+  private byIP = new Map<string, Set<string>>();
+
+  register(ipAddress: string, connectionId: string): void {
+    this.release(connectionId);
+
+    this.connections.set(connectionId, ipAddress);
+    let ids = this.byIP.get(ipAddress);
+    if (!ids) {
+      ids = new Set();
+      this.byIP.set(ipAddress, ids);
+    }
+    ids.add(connectionId);
+  }
+
+  release(connectionId: string): void {
+    const ipAddress = this.connections.get(connectionId);
+    if (ipAddress === undefined) {
+      return;
+    }
+
+    this.connections.delete(connectionId);
+    const ids = this.byIP.get(ipAddress);
+    ids?.delete(connectionId);
+    if (ids && ids.size === 0) {
+      this.byIP.delete(ipAddress);
+    }
+  }
+
+  getCount(ipAddress: string): number {
+    return this.byIP.get(ipAddress)?.size ?? 0;
+  }
+
+  list(): IPConnectionCount[] {
+    return Array.from(this.byIP.entries())
+      .map(([ipAddress, ids]) => ({
+        ipAddress,
+        count: ids.size,
+        connectionIds: Array.from(ids),
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /** Forgets the tracked connections for one IP, or for every IP; returns how many were dropped */
+  reset(ipAddress?: string): number {
+    if (ipAddress === undefined) {
+      const total = this.connections.size;
+      this.connections.clear();
+      this.byIP.clear();
+      return total;
+    }
+
+    const ids = this.byIP.get(ipAddress);
+    if (!ids) {
+      return 0;
+    }
+    for (const id of ids) {
+      this.connections.delete(id);
+    }
+    this.byIP.delete(ipAddress);
+    return ids.size;
+  }
+}
+
+export const connectionRegistry = new ConnectionRegistry();
@@ -16,6 +16,7 @@ export const getCorsHeaders = (origin: string | null): Record<string, string> =>
     "Access-Control-Allow-Origin": allowedOrigin,
     "Access-Control-Allow-Methods": SECURITY_CONFIG.CORS.ALLOWED_METHODS.join(", "),
     "Access-Control-Allow-Headers": SECURITY_CONFIG.CORS.ALLOWED_HEADERS.join(", "),
+    "Access-Control-Expose-Headers": SECURITY_CONFIG.CORS.EXPOSED_HEADERS.join(", "),
     "Access-Control-Allow-Credentials": SECURITY_CONFIG.CORS.ALLOW_CREDENTIALS.toString(),
     "Vary": "Origin",
   };
@@ -0,0 +1,31 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { env, isProduction } from '../env';
+import { logger } from '../logger';
+
+/**
+ * DAILY_CHALLENGE_SECRET keeps the daily questions from being worked out ahead of time.
+ * Every instance needs the same value, and changing it changes the current day's
+ * questions, so it is separate from the session token secrets that get rotated.
+ */
+const loadDailySecret = (): string => {
+  if (env.DAILY_CHALLENGE_SECRET) {
+    return env.DAILY_CHALLENGE_SECRET;
+  }
+
+  if (isProduction) {
+    throw new Error('DAILY_CHALLENGE_SECRET must be set in production');
+  }
+
+  logger.warn(
+    'DAILY_CHALLENGE_SECRET is not set; using an ephemeral secret, daily questions will change on restart'
+  );
+  return randomBytes(32).toString('hex');
+};
+
+const dailySecret = loadDailySecret();
+
+/** Same output on every instance for the same input, without the input being recoverable from it */
+export const deriveDailyValue = (purpose: string, value: string): string =>
+  createHmac('sha256', dailySecret)
+    .update(`${purpose}:${value}`)
+    .digest('base64url');
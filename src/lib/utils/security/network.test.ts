@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveClientIP, UNKNOWN_CLIENT_IP } from './network';
+
+const TRUSTED = ['10.0.0.0/8', '2001:db8::1'];
+
+const requestWith = (headers: Record<string, string> = {}) =>
+  new Request('http://localhost/ws', { headers });
+
+describe('resolveClientIP', () => {
+  test("uses the peer address when the peer isn't a trusted proxy", () => {
+    const request = requestWith({
+      'x-forwarded-for': '198.51.100.1',
+      'x-real-ip': '198.51.100.2',
+    });
+    expect(resolveClientIP(request, '203.0.113.5', TRUSTED)).toBe(
+      '203.0.113.5'
+    );
+  });
+
+  test('takes the client from x-forwarded-for behind a trusted proxy', () => {
+    const request = requestWith({ 'x-forwarded-for': '198.51.100.1' });
+    expect(resolveClientIP(request, '10.1.2.3', TRUSTED)).toBe('198.51.100.1');
+    expect(resolveClientIP(request, '2001:db8::1', TRUSTED)).toBe(
+      '198.51.100.1'
+    );
+  });
+
+  test('ignores entries a client prepends to x-forwarded-for', () => {
+    const request = requestWith({
+      'x-forwarded-for': '1.2.3.4, 198.51.100.1, 10.0.0.2',
+    });
+    expect(resolveClientIP(request, '10.1.2.3', TRUSTED)).toBe('198.51.100.1');
+  });
+
+  test('stops at a malformed hop rather than skipping it', () => {
+    const request = requestWith({
+      'x-forwarded-for': '198.51.100.1, not-an-ip',
+    });
+    expect(resolveClientIP(request, '10.1.2.3', TRUSTED)).toBe('10.1.2.3');
+  });
+
+  test('falls back to x-real-ip, then the proxy itself', () => {
+    expect(
+      resolveClientIP(
+        requestWith({ 'x-real-ip': '198.51.100.9' }),
+        '10.1.2.3',
+        TRUSTED
+      )
+    ).toBe('198.51.100.9');
+    expect(resolveClientIP(requestWith(), '10.1.2.3', TRUSTED)).toBe(
+      '10.1.2.3'
+    );
+  });
+
+  test('ignores forwarding headers when no proxy is trusted', () => {
+    const request = requestWith({ 'x-forwarded-for': '198.51.100.1' });
+    expect(resolveClientIP(request, '10.1.2.3', [])).toBe('10.1.2.3');
+  });
+
+  test('normalises IPv4-mapped peers and reports a missing peer as unknown', () => {
+    expect(resolveClientIP(requestWith(), '::ffff:203.0.113.5', TRUSTED)).toBe(
+      '203.0.113.5'
+    );
+    expect(resolveClientIP(requestWith(), null, TRUSTED)).toBe(
+      UNKNOWN_CLIENT_IP
+    );
+  });
+});
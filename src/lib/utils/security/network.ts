@@ -1,40 +1,234 @@
+// biome-ignore-all lint/nursery/noBitwiseOperators: addresses and masks are compared as integers
 import { SECURITY_CONFIG } from "./config";
-import { env, isDevelopment, EnvSchema } from "../env";
+import { env, isDevelopment } from "../env";
+import { logger } from "../logger";
 
 export const isOriginAllowed = (origin: string | null): boolean => {
-    if (!origin) return isDevelopment ? true : false;
+    if (!origin) {
+        return isDevelopment;
+    }
     const nodeEnv = env.NODE_ENV;
     return SECURITY_CONFIG.ALLOWED_ORIGINS[nodeEnv].includes(origin);
 };
 
-export const getClientIPAddress = (request: Request): string => {
-    const headers = request.headers;
+const IPV4_OCTET = /^\d{1,3}$/;
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+/** The brackets around an IPv6 host in a URL or Host header */
+const IPV6_BRACKETS = /^\[|\]$/g;
+
+interface ParsedIP {
+    version: 4 | 6;
+    value: bigint;
+}
+
+const parseIPv4 = (ip: string): bigint | null => {
+    const parts = ip.split(".");
+    if (parts.length !== 4) {
+        return null;
+    }
+
+    let value = 0n;
+    for (const part of parts) {
+        if (!IPV4_OCTET.test(part)) {
+            return null;
+        }
+        const octet = Number(part);
+        if (octet > 255) {
+            return null;
+        }
+        value = (value << 8n) | BigInt(octet);
+    }
+    return value;
+};
+
+const parseIPv6 = (ip: string): bigint | null => {
+    let address = ip.split("%")[0];
+
+    // An embedded IPv4 tail (e.g. ::ffff:192.0.2.1) counts as the last two groups
+    const lastColon = address.lastIndexOf(":");
+    const tail = address.slice(lastColon + 1);
+    if (tail.includes(".")) {
+        const v4 = parseIPv4(tail);
+        if (v4 === null) {
+            return null;
+        }
+        address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+    }
+
+    const halves = address.split("::");
+    if (halves.length > 2) {
+        return null;
+    }
+
+    const head = halves[0] ? halves[0].split(":") : [];
+    const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+    const missing = 8 - head.length - rest.length;
+    if (halves.length === 1 ? missing !== 0 : missing < 1) {
+        return null;
+    }
+
+    const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+    let value = 0n;
+    for (const group of groups) {
+        if (!IPV6_GROUP.test(group)) {
+            return null;
+        }
+        value = (value << 16n) | BigInt(Number.parseInt(group, 16));
+    }
+    return value;
+};
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+
+const parseIP = (ip: string): ParsedIP | null => {
+    const v4 = parseIPv4(ip);
+    if (v4 !== null) {
+        return { version: 4, value: v4 };
+    }
+
+    const v6 = parseIPv6(ip);
+    if (v6 === null) {
+        return null;
+    }
+    if (v6 >> 32n === 0xffffn) {
+        return { version: 4, value: v6 - IPV4_MAPPED_PREFIX };
+    }
+    return { version: 6, value: v6 };
+};
+
+/**
+ * Parses a single address or a CIDR range ("203.0.113.0/24", "2001:db8::/32").
+ * IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+export const parseIPRange = (range: string): { version: 4 | 6; network: bigint; prefix: number } | null => {
+    const [address, prefixPart, ...rest] = range.trim().split("/");
+    if (rest.length > 0) {
+        return null;
+    }
+
+    const parsed = parseIP(address);
+    if (!parsed) {
+        return null;
+    }
+
+    const bits = parsed.version === 4 ? 32 : 128;
+    const prefix = prefixPart === undefined ? bits : Number(prefixPart);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+        return null;
+    }
+
+    const shift = BigInt(bits - prefix);
+    return { version: parsed.version, network: (parsed.value >> shift) << shift, prefix };
+};
+
+export const ipMatchesRange = (ip: string, range: string): boolean => {
+    const parsedIP = parseIP(ip);
+    const parsedRange = parseIPRange(range);
+    if (!(parsedIP && parsedRange) || parsedIP.version !== parsedRange.version) {
+        return false;
+    }
+
+    const shift = BigInt((parsedIP.version === 4 ? 32 : 128) - parsedRange.prefix);
+    return (parsedIP.value >> shift) << shift === parsedRange.network;
+};
+
+/** Canonical form used as the key for per-IP bookkeeping; IPv4-mapped IPv6 collapses to IPv4 */
+export const normalizeIP = (ip: string): string | null => {
+    const address = ip.trim().replace(IPV6_BRACKETS, "");
+    const parsed = parseIP(address);
+    if (!parsed) {
+        return null;
+    }
+    if (parsed.version === 4) {
+        return [24n, 16n, 8n, 0n].map((shift) => ((parsed.value >> shift) & 0xffn).toString()).join(".");
+    }
+    return address.split("%")[0].toLowerCase();
+};
 
-    let ip =
-        headers.get("x-forwarded-for") ||
-        headers.get("x-real-ip") ||
-        headers.get("x-client-ip") ||
-        "";
+let trustedProxies: string[] | null = null;
 
-    if (ip) {
-        // x-forwarded-for can be a list: client, proxy1, proxy2
-        // forwarded can be: for=192.0.2.43, for="[2001:db8:cafe::17]";proto=https;by=203.0.113.43
-        // Normalize by extracting the first IP
-        if (ip.includes(",")) {
-            ip = ip.split(",")[0].trim();
+const getTrustedProxies = (): string[] => {
+    if (trustedProxies) {
+        return trustedProxies;
+    }
+
+    trustedProxies = [];
+    for (const entry of (env.TRUSTED_PROXIES ?? "").split(",")) {
+        const range = entry.trim();
+        if (!range) {
+            continue;
         }
-        // Parse Forwarded header format
-        if (ip.toLowerCase().includes("for=")) {
-            const match = ip.match(/for=([^;,\s]+)/i);
-            if (match && match[1]) {
-                ip = match[1].replace(/^"|"$/g, "");
+        if (parseIPRange(range)) {
+            trustedProxies.push(range);
+        } else {
+            logger.warn(`Ignoring invalid TRUSTED_PROXIES entry: ${range}`);
+        }
+    }
+    return trustedProxies;
+};
+
+/** Placeholder resolveClientIP returns when the peer address is missing; never a real client */
+export const UNKNOWN_CLIENT_IP = "unknown";
+
+export const isTrustedProxy = (ip: string, trusted: string[] = getTrustedProxies()): boolean =>
+    trusted.some((range) => ipMatchesRange(ip, range));
+
+/** Loopback, private, link-local and carrier-grade NAT ranges */
+const NON_PUBLIC_RANGES = [
+    "127.0.0.0/8",
+    "10.0.0.0/8",
+    "172.16.0.0/12",
+    "192.168.0.0/16",
+    "169.254.0.0/16",
+    "100.64.0.0/10",
+    "::1/128",
+    "fc00::/7",
+    "fe80::/10",
+];
+
+/**
+ * True when a resolved address may stand for many clients at once: unknown, a trusted
+ * proxy whose forwarding header was missing, or a non-public address (typically a proxy
+ * that isn't listed in TRUSTED_PROXIES). Banning one of these would block bystanders.
+ */
+export const isSharedClientIP = (ip: string): boolean =>
+    ip === UNKNOWN_CLIENT_IP || isTrustedProxy(ip) || NON_PUBLIC_RANGES.some((range) => ipMatchesRange(ip, range));
+
+/**
+ * Resolves the client IP for a request from the socket peer address.
+ * Forwarding headers are only honoured when the peer is a trusted proxy, and
+ * x-forwarded-for is walked right to left past every trusted hop, so a client
+ * can't pick its own address by prepending entries.
+ */
+export const resolveClientIP = (
+    request: Request,
+    peerAddress: string | null | undefined,
+    trusted: string[] = getTrustedProxies()
+): string => {
+    let current = peerAddress ? normalizeIP(peerAddress) : null;
+    if (!current) {
+        return UNKNOWN_CLIENT_IP;
+    }
+    if (!isTrustedProxy(current, trusted)) {
+        return current;
+    }
+
+    const forwardedFor = request.headers.get("x-forwarded-for");
+    if (forwardedFor) {
+        const hops = forwardedFor.split(",").reverse();
+        for (const hop of hops) {
+            if (!isTrustedProxy(current, trusted)) {
+                break;
+            }
+            const hopIP = normalizeIP(hop);
+            if (!hopIP) {
+                break;
             }
+            current = hopIP;
         }
-        // Strip IPv6 brackets if present
-        ip = ip.replace(/^\[/, "").replace(/\]$/, "");
-        return ip;
+        return current;
     }
 
-    // Final fallback
-    return isDevelopment ? "127.0.0.1" : "unknown";
+    const realIP = request.headers.get("x-real-ip");
+    return (realIP && normalizeIP(realIP)) || current;
 };
@@ -1,4 +1,5 @@
 import { SECURITY_CONFIG } from "./config";
+import { rateLimitRejectionsTotal } from "../../metrics";
 
 interface RateLimitRule {
   limit: number;
@@ -12,13 +13,18 @@ interface RateLimitResult {
   retryAfter?: number;
   limit?: number;
   windowMs?: number;
+  /** Which budget rejected the request */
+  scope?: RateLimitScope;
 }
 
+type RateLimitScope = "user" | "ip" | "connection";
+
 interface RateLimiter {
   isAllowed(key: string, rule: RateLimitRule): boolean;
   consume(key: string, rule: RateLimitRule): RateLimitResult;
   getRemainingRequests(key: string, rule: RateLimitRule): number;
   getResetTime(key: string, rule: RateLimitRule): number;
+  reset(key: string): void;
 }
 
 interface WindowData {
@@ -90,6 +96,10 @@ class SlidingWindowCounter implements RateLimiter {
     };
   }
 
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
   private getOrUpdateWindow(key: string, windowSizeMs: number, now: number): WindowData {
     const currentWindowStart = Math.floor(now / windowSizeMs) * windowSizeMs;
     let window = this.windows.get(key);
@@ -145,6 +155,12 @@ interface RateLimitIdentifiers {
   roomId?: string | null;
 }
 
+interface ScopedRule {
+  scope: RateLimitScope;
+  key: string;
+  rule: RateLimitRule;
+}
+
 export class RateLimiterService {
   private limiter: RateLimiter;
 
@@ -152,62 +168,91 @@ export class RateLimiterService {
     this.limiter = limiter;
   }
 
-  private buildKey(action: ActionKey, identifiers: RateLimitIdentifiers): string | null {
+  private getScopedRules(action: ActionKey, identifiers: RateLimitIdentifiers): ScopedRule[] {
     const config = SECURITY_CONFIG.RATE_LIMITS.ACTIONS[action];
-    if (!config) return null;
+    if (!config) return [];
 
+    const rules: ScopedRule[] = [];
     if (config.perUser && identifiers.userId) {
-      return `${action}:user:${identifiers.userId}`;
+      rules.push({ scope: "user", key: `${action}:user:${identifiers.userId}`, rule: config.perUser });
     }
-    return null;
-  }
-
-  private getRule(action: ActionKey): RateLimitRule | null {
-    const config = SECURITY_CONFIG.RATE_LIMITS.ACTIONS[action];
-    if (!config?.perUser) return null;
-    return config.perUser;
+    if (config.perIP && identifiers.ipAddress) {
+      rules.push({ scope: "ip", key: `${action}:ip:${identifiers.ipAddress}`, rule: config.perIP });
+    }
+    return rules;
   }
 
   isAllowed(action: ActionKey, identifiers: RateLimitIdentifiers): boolean {
-    const key = this.buildKey(action, identifiers);
-    const rule = this.getRule(action);
-
-    if (!key || !rule) return true;
-
-    return this.limiter.isAllowed(key, rule);
+    return this.getScopedRules(action, identifiers).every(({ key, rule }) => this.limiter.isAllowed(key, rule));
   }
 
   getRemaining(action: ActionKey, identifiers: RateLimitIdentifiers): number {
-    const key = this.buildKey(action, identifiers);
-    const rule = this.getRule(action);
-
-    if (!key || !rule) return Number.POSITIVE_INFINITY;
-
-    return this.limiter.getRemainingRequests(key, rule);
+    return this.getScopedRules(action, identifiers).reduce(
+      (remaining, { key, rule }) => Math.min(remaining, this.limiter.getRemainingRequests(key, rule)),
+      Number.POSITIVE_INFINITY
+    );
   }
 
   getResetTime(action: ActionKey, identifiers: RateLimitIdentifiers): number {
-    const key = this.buildKey(action, identifiers);
-    const rule = this.getRule(action);
-
-    if (!key || !rule) return Date.now();
-
-    return this.limiter.getResetTime(key, rule);
+    return this.getScopedRules(action, identifiers).reduce(
+      (resetTime, { key, rule }) => Math.max(resetTime, this.limiter.getResetTime(key, rule)),
+      Date.now()
+    );
   }
 
+  /**
+   * Charges the action against every budget that applies to it. Nothing is
+   * charged unless all of them have room, so a rejection doesn't eat into the
+   * budgets that would have allowed it.
+   */
   consume(action: ActionKey, identifiers: RateLimitIdentifiers): RateLimitResult {
-    const key = this.buildKey(action, identifiers);
-    const rule = this.getRule(action);
+    const scopedRules = this.getScopedRules(action, identifiers);
 
-    if (!key || !rule) {
-      return {
-        allowed: true,
-        remaining: Number.POSITIVE_INFINITY,
-        resetTime: Date.now(),
-      };
+    const exhausted = scopedRules.find(({ key, rule }) => !this.limiter.isAllowed(key, rule));
+    if (exhausted) {
+      rateLimitRejectionsTotal.inc({ action });
+      return { ...this.limiter.consume(exhausted.key, exhausted.rule), scope: exhausted.scope };
     }
 
-    return this.limiter.consume(key, rule);
+    let result: RateLimitResult = {
+      allowed: true,
+      remaining: Number.POSITIVE_INFINITY,
+      resetTime: Date.now(),
+    };
+    for (const { key, rule } of scopedRules) {
+      const scopedResult = this.limiter.consume(key, rule);
+      if (scopedResult.remaining < result.remaining) {
+        result = scopedResult;
+      }
+    }
+    return result;
+  }
+
+  /** Charges one message against the connection's overall message budget */
+  consumeMessage(connectionId: string): RateLimitResult {
+    const result = this.limiter.consume(
+      `connection:${connectionId}`,
+      SECURITY_CONFIG.RATE_LIMITS.GLOBAL_MESSAGES_PER_CONNECTION
+    );
+    if (!result.allowed) {
+      rateLimitRejectionsTotal.inc({ action: "MESSAGE" });
+      return { ...result, scope: "connection" };
+    }
+    return result;
+  }
+
+  /**
+   * Counts a rejected request against the offender. Returns true once they
+   * cross the escalation threshold; the count starts over after that.
+   */
+  recordViolation(offender: string): boolean {
+    const { VIOLATION_THRESHOLD, VIOLATION_WINDOW_MS } = SECURITY_CONFIG.RATE_LIMITS.ESCALATION;
+    const key = `violations:${offender}`;
+    const result = this.limiter.consume(key, { limit: VIOLATION_THRESHOLD, resetIntervalMs: VIOLATION_WINDOW_MS });
+    if (result.allowed) return false;
+
+    this.limiter.reset(key);
+    return true;
   }
 
   cleanup(): void {
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import {
+  issueSessionToken,
+  loadSigningKeys,
+  verifySessionToken,
+} from './session-tokens';
+
+const current = loadSigningKeys('2026-10:new-secret');
+const rotated = loadSigningKeys('2026-10:new-secret,2026-04:old-secret');
+const previous = loadSigningKeys('2026-04:old-secret');
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('session tokens', () => {
+  test('a token verifies and carries its user id and key label', () => {
+    const session = issueSessionToken('user-1', current);
+    expect(verifySessionToken(session.token, current)).toMatchObject({
+      sub: 'user-1',
+      kid: '2026-10',
+    });
+  });
+
+  test('a tampered payload or signature is rejected', () => {
+    const [payload, signature] = issueSessionToken(
+      'user-1',
+      current
+    ).token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+        sub: 'user-2',
+      })
+    ).toString('base64url');
+
+    expect(verifySessionToken(`${forged}.${signature}`, current)).toBeNull();
+    expect(
+      verifySessionToken(`${payload}.${signature.slice(1)}A`, current)
+    ).toBeNull();
+    expect(
+      verifySessionToken(`${payload}.${signature}.extra`, current)
+    ).toBeNull();
+  });
+
+  test('an expired token is rejected', () => {
+    const session = issueSessionToken('user-1', current);
+    setSystemTime(new Date(session.expiresAt + 1000));
+    expect(verifySessionToken(session.token, current)).toBeNull();
+  });
+
+  test('tokens from a rotated-out secret stay valid until it is dropped', () => {
+    const oldSession = issueSessionToken('user-1', previous);
+    expect(verifySessionToken(oldSession.token, rotated)?.sub).toBe('user-1');
+    expect(verifySessionToken(oldSession.token, current)).toBeNull();
+
+    // New tokens are signed with the first secret in the list
+    expect(
+      verifySessionToken(issueSessionToken('user-2', rotated).token, current)
+        ?.sub
+    ).toBe('user-2');
+  });
+
+  test('unlabelled secrets are named by position and labels must be unique', () => {
+    expect(loadSigningKeys('first,second').map((key) => key.id)).toEqual([
+      '0',
+      '1',
+    ]);
+    expect(() => loadSigningKeys('a:one,a:two')).toThrow();
+  });
+});
@@ -0,0 +1,144 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { env, isProduction } from '../env';
+import { logger } from '../logger';
+
+export interface SessionClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  kid: string;
+}
+
+export interface IssuedSessionToken {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+/** "label:secret", or a bare secret identified by its position in the list */
+const toKey = (entry: string, index: number): SigningKey => {
+  const separator = entry.indexOf(':');
+  if (separator <= 0) {
+    return { id: String(index), secret: entry };
+  }
+  return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+};
+
+/**
+ * SESSION_TOKEN_SECRETS is a comma-separated list. The first secret signs new tokens;
+ * the rest are still accepted so a secret can be rotated out without logging everyone
+ * off at once. Dropping a secret from the list invalidates every token it signed.
+ * Tokens name their key by label, so label the secrets before rotating: an unlabelled
+ * secret's id is its position, which changes when a new one is put in front of it.
+ */
+export const loadSigningKeys = (
+  value: string | undefined = env.SESSION_TOKEN_SECRETS
+): SigningKey[] => {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length > 0) {
+    const keys = entries.map(toKey);
+    if (new Set(keys.map((key) => key.id)).size !== keys.length) {
+      throw new Error('SESSION_TOKEN_SECRETS labels must be unique');
+    }
+    return keys;
+  }
+
+  if (isProduction) {
+    throw new Error('SESSION_TOKEN_SECRETS must be set in production');
+  }
+
+  logger.warn(
+    'SESSION_TOKEN_SECRETS is not set; using an ephemeral secret, sessions will not survive a restart'
+  );
+  return [toKey(randomBytes(32).toString('hex'), 0)];
+};
+
+const signingKeys = loadSigningKeys();
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+export const issueSessionToken = (
+  userId: string,
+  keys: SigningKey[] = signingKeys
+): IssuedSessionToken => {
+  const [currentKey] = keys;
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    sub: userId,
+    iat: now,
+    exp: now + env.SESSION_TOKEN_TTL_SECONDS,
+    kid: currentKey.id,
+  };
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return {
+    token: `${payload}.${sign(payload, currentKey.secret)}`,
+    userId,
+    expiresAt: claims.exp * 1000,
+  };
+};
+
+export const verifySessionToken = (
+  token: string,
+  keys: SigningKey[] = signingKeys
+): SessionClaims | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!(payload && signature) || rest.length > 0) {
+    return null;
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  const key = keys.find((candidate) => candidate.id === claims?.kid);
+  if (!key) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, key.secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    return null;
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    return null;
+  }
+
+  return claims;
+};
+
+export const buildSessionCookie = (session: IssuedSessionToken): string => {
+  const maxAge = Math.max(
+    0,
+    Math.floor((session.expiresAt - Date.now()) / 1000)
+  );
+  const attributes = [
+    `session_token=${session.token}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+  ];
+  if (isProduction) {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+};
@@ -1,27 +1,25 @@
-import { CustomWebSocket } from "../../../types/entities";
 import { SECURITY_CONFIG } from "./config";
-import { isOriginAllowed, getClientIPAddress } from "./network";
+import { isOriginAllowed } from "./network";
+import { connectionRegistry } from "./connection-registry";
 import { parseCookies } from "./cookies";
+import { verifySessionToken } from "./session-tokens";
 import { logger } from "../logger";
+import { bansManager } from "../../managers/ban-management";
 
 export class WebSocketSecurity {
-    private static suspiciousIPs = new Set<string>();
-    private static connectionCounts = new Map<string, number>();
-
     static validateConnection(
         request: Request,
-        ipAddressOverride?: string
+        ipAddress: string
     ): {
         allowed: boolean;
         reason?: string;
+        userId?: string;
     } {
-        const ipAddress = ipAddressOverride || getClientIPAddress(request);
-
-        if (this.suspiciousIPs.has(ipAddress)) {
-            return { allowed: false, reason: 'This IP has been blocked' };
+        if (bansManager.findIPBan(ipAddress)) {
+            return { allowed: false, reason: 'This IP has been banned' };
         }
 
-        const currentConnections = this.connectionCounts.get(ipAddress) || 0;
+        const currentConnections = connectionRegistry.getCount(ipAddress);
         if (currentConnections >= SECURITY_CONFIG.RATE_LIMITS.MAX_CONNECTIONS_PER_IP) {
             logger.warn(`Too many connections from IP: ${ipAddress}`);
             return { allowed: false, reason: 'Too many connections from IP' };
@@ -39,32 +37,16 @@ export class WebSocketSecurity {
             return { allowed: false, reason: 'Missing session token' };
         }
 
-        return { allowed: true };
-    }
-
-    static trackConnection(_ws: CustomWebSocket, request: Request): void {
-        const ipAddress = getClientIPAddress(request);
-        const current = this.connectionCounts.get(ipAddress) || 0;
-        this.connectionCounts.set(ipAddress, current + 1);
-    }
-
-    static untrackConnection(request: Request): void {
-        const ipAddress = getClientIPAddress(request);
-        const current = this.connectionCounts.get(ipAddress) || 0;
-        if (current <= 1) {
-            this.connectionCounts.delete(ipAddress);
-        } else {
-            this.connectionCounts.set(ipAddress, current - 1);
+        const claims = verifySessionToken(sessionToken);
+        if (!claims) {
+            return { allowed: false, reason: 'Invalid or expired session token' };
         }
-    }
 
-    static untrackByIp(ip: string): void {
-        const current = this.connectionCounts.get(ip) || 0;
-        if (current <= 1) {
-            this.connectionCounts.delete(ip);
-        } else {
-            this.connectionCounts.set(ip, current - 1);
+        if (bansManager.findUserBan(claims.sub)) {
+            return { allowed: false, reason: 'This account has been banned' };
         }
+
+        return { allowed: true, userId: claims.sub };
     }
 
     static validateMessage(message: any): { valid: boolean; reason?: string } {
@@ -79,11 +61,15 @@ export class WebSocketSecurity {
         return { valid: true };
     }
 
-    static blockIP(ip: string): void {
-        this.suspiciousIPs.add(ip);
+    static blockIP(ip: string, reason: string = 'Suspicious activity', durationMs?: number): void {
+        bansManager.createBan({ type: 'ip', target: ip, reason, issuedBy: 'system', durationMs });
     }
 
     static unblockIP(ip: string): void {
-        this.suspiciousIPs.delete(ip);
+        for (const ban of bansManager.listBans()) {
+            if (ban.type === 'ip' && ban.target === ip) {
+                bansManager.liftBan(ban.id);
+            }
+        }
     }
 }
\ No newline at end of file
@@ -4,6 +4,12 @@ import {
   REGEX_PATTERNS,
   INAPPROPRIATE_WORDS,
   GAME_MODES,
+  QUESTION_TYPES,
+  QUESTION_TYPE_SETTINGS,
+  ANSWER_MODES,
+  MIN_OPTION_COUNT,
+  MAX_OPTION_COUNT,
+  COUNTRY_POOL_KINDS,
   TIME_PER_QUESTION_ALLOWED
 } from '../constants';
 import { InputSanitizer } from './security/input-sanitizer';
@@ -37,9 +43,18 @@ export const RoomNameSchema = z
 
 export const DifficultySchema = z.enum(DIFFICULTY_LEVELS);
 export const GameModeSchema = z.enum(GAME_MODES);
+export const QuestionTypeSchema = z.enum(QUESTION_TYPES);
+export const QuestionTypeSettingSchema = z.enum(QUESTION_TYPE_SETTINGS);
+export const AnswerModeSchema = z.enum(ANSWER_MODES);
+export const OptionCountSchema = z.number().int().min(MIN_OPTION_COUNT).max(MAX_OPTION_COUNT);
+export const CountryPoolSchema = z.object({
+  kind: z.enum(COUNTRY_POOL_KINDS),
+  key: z.string().min(1).max(50),
+}).strict();
 export const UserIdSchema = z.uuidv4().min(VALIDATION_LIMITS.USER_ID.MIN).max(VALIDATION_LIMITS.USER_ID.MAX);
 export const InviteCodeSchema = z.string().length(VALIDATION_LIMITS.INVITE_CODE_LENGTH);
-export const AnswerSchema = z.string().min(VALIDATION_LIMITS.ANSWER.MIN).max(VALIDATION_LIMITS.ANSWER.MAX).transform(InputSanitizer.sanitizeString);
+/** Not sanitised: the matcher needs the original punctuation, so callers sanitise the copy they store */
+export const AnswerSchema = z.string().min(VALIDATION_LIMITS.ANSWER.MIN).max(VALIDATION_LIMITS.ANSWER.MAX);
 
 export const QuestionCountSchema = z.number().min(VALIDATION_LIMITS.QUESTION_COUNT.MIN).max(VALIDATION_LIMITS.QUESTION_COUNT.MAX);
 
@@ -49,18 +64,42 @@ export const TimePerQuestionSchema = z.union([
   z.literal(15),
   z.literal(20),
   z.literal(30),
-]).default(15);
+]);
+
+const RoomSettingsFields = {
+  difficulty: DifficultySchema,
+  questionCount: QuestionCountSchema,
+  timePerQuestion: TimePerQuestionSchema,
+  allowSpectators: z.boolean(),
+  allowJoinAfterGameStart: z.boolean(),
+  gameMode: GameModeSchema,
+  questionType: QuestionTypeSettingSchema,
+  answerMode: AnswerModeSchema,
+  /** Omit to use the difficulty's default, see DEFAULT_OPTION_COUNTS */
+  optionCount: OptionCountSchema,
+  /** Restricts questions to one continent, region or named pool; null clears it */
+  countryPool: CountryPoolSchema.nullable(),
+  maxRoomSize: z.number().min(2).max(5),
+};
 
 export const RoomSettingsSchema = z.object({
-  difficulty: DifficultySchema.default('easy'),
-  questionCount: QuestionCountSchema.default(15),
-  timePerQuestion: TimePerQuestionSchema.default(15),
-  allowSpectators: z.boolean().optional(),
-  allowJoinAfterGameStart: z.boolean().default(false),
-  gameMode: GameModeSchema.default('classic'),
-  maxRoomSize: z.number().min(2).max(5).default(2),
+  ...RoomSettingsFields,
+  difficulty: RoomSettingsFields.difficulty.default('easy'),
+  questionCount: RoomSettingsFields.questionCount.default(15),
+  timePerQuestion: RoomSettingsFields.timePerQuestion.default(15),
+  allowSpectators: RoomSettingsFields.allowSpectators.optional(),
+  allowJoinAfterGameStart: RoomSettingsFields.allowJoinAfterGameStart.default(false),
+  gameMode: RoomSettingsFields.gameMode.default('classic'),
+  questionType: RoomSettingsFields.questionType.default('flag-to-name'),
+  answerMode: RoomSettingsFields.answerMode.default('choice'),
+  optionCount: RoomSettingsFields.optionCount.optional(),
+  countryPool: RoomSettingsFields.countryPool.optional(),
+  maxRoomSize: RoomSettingsFields.maxRoomSize.default(2),
 }).strict();
 
+/** No defaults here: an update only carries the settings the host changed */
+export const RoomSettingsUpdateSchema = z.object(RoomSettingsFields).partial().strict();
+
 const createValidator = <T>(schema: z.ZodSchema<T>) =>
   (data: unknown): { valid: boolean; error?: string } => {
     const result = schema.safeParse(data);
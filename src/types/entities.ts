@@ -1,12 +1,17 @@
 import { ServerWebSocket } from "bun";
 import { Room } from "../lib/schemas/websockets";
 
+export { Ban, BanType } from "../lib/schemas/admin";
+export { DailyAttempt, DailyAttemptAnswer, DailyLeaderboardEntry } from "../lib/schemas/daily";
+
 export {
   Room,
   User,
   GameAnswer,
+  PointsBreakdown,
   GameState,
   GameQuestion,
+  ClientQuestion,
   GameStateLeaderboard,
   WebSocketMessage as ServerToClientMessage,
   CreateRoomData,
@@ -14,11 +19,16 @@ export {
   SubmitAnswerData,
   UpdateSettingsData,
   KickUserData,
+  PromoteSpectatorData,
   AuthSuccessData,
+  GameStateSyncData,
   RoomSuccessData,
   UserJoinedData,
   UserLeftData,
+  UserDisconnectedData,
+  UserReconnectedData,
   HostChangedData,
+  SpectatorPromotedData,
   KickedData,
   GameStartingData,
   NewQuestionData,
@@ -26,7 +36,16 @@ export {
   QuestionResultsData,
   GameEndedData,
   SettingsUpdatedData,
+  HeartsUpdatedData,
+  PlayerEliminatedData,
   ErrorData,
+  RoomClosedData,
+  SystemMessageData,
+  DailyChallengeStartData,
+  DailyChallengeAnswerData,
+  DailyChallengeQuestionData,
+  DailyChallengeAnswerResultData,
+  DailyChallengeCompleteData,
 } from "../lib/schemas/websockets";
 
 export type RoomSettings = Room["settings"];
@@ -37,10 +56,18 @@ export interface CustomWebSocket extends ServerWebSocket<WebSocketData> {}
 
 export interface WebSocketData {
   userId: string | null;
+  /** Identifies this socket in logs; a reconnect gets a new one */
+  connectionId: string;
   roomId: string | null;
   isAdmin: boolean;
   authenticated: boolean;
   ipAddress?: string;
   closedByNewSession?: boolean;
+  /** The heartbeat gave up on this socket and already started the disconnect */
+  closedByHeartbeat?: boolean;
+  /** Instance that owns this client's room, when it isn't the one holding the socket */
+  relayTo?: string;
+  /** Instance holding the real socket; set on the owner's stand-in for it */
+  relayOrigin?: string;
 }
 